@@ -5,11 +5,20 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
+import Compare from "@/pages/compare";
+import History from "@/pages/history";
+import WhereUsed from "@/pages/where-used";
+import Impact from "@/pages/impact";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/compare" component={Compare} />
+      <Route path="/history" component={History} />
+      <Route path="/history/:id" component={History} />
+      <Route path="/where-used" component={WhereUsed} />
+      <Route path="/impact" component={Impact} />
       <Route component={NotFound} />
     </Switch>
   );
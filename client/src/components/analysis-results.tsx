@@ -12,8 +12,19 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Download, Play, Cog, Square } from "lucide-react";
+import { Download, Play, Cog, Square, FileJson } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { downloadCsv, downloadJson } from "@/lib/export";
+import { StageInventory } from "@/components/stage-inventory";
+import { FlowchartViewer } from "@/components/flowchart-viewer";
+import { FlowFindings } from "@/components/flow-findings";
+import { CallGraphTree } from "@/components/call-graph-tree";
+import { ExceptionCoverage } from "@/components/exception-coverage";
+import { CalledProcesses } from "@/components/called-processes";
+import { DataCatalogue } from "@/components/data-catalogue";
+import { RuleFindings } from "@/components/rule-findings";
+import { ExpressionIssues } from "@/components/expression-issues";
+import { ConfigurationReport } from "@/components/configuration-report";
 import type { ProcessAnalysis, VBODependency } from "@shared/schema";
 
 interface AnalysisResultsProps {
@@ -64,27 +75,7 @@ export function AnalysisResults({ analysis }: AnalysisResultsProps) {
       });
     });
 
-    // Create CSV content with UTF-8 BOM for better Excel compatibility and autofit
-    // The BOM helps Excel recognize UTF-8 encoding and apply autofit automatically
-    const csvContent = "\uFEFF" + csvRows.map(row => 
-      row.map(field => {
-        // Ensure proper escaping and formatting for Excel autofit
-        const escapedField = field.replace(/"/g, '""');
-        return `"${escapedField}"`;
-      }).join(",")
-    ).join("\r\n"); // Use Windows line endings for better Excel compatibility
-
-    const blob = new Blob([csvContent], { 
-      type: "text/csv;charset=utf-8;" 
-    });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `${analysis.fileName}_dependencies.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadCsv(csvRows, `${analysis.fileName}_dependencies.csv`);
 
     toast({
       title: "Export completed",
@@ -92,6 +83,15 @@ export function AnalysisResults({ analysis }: AnalysisResultsProps) {
     });
   };
 
+  const handleJsonExport = () => {
+    downloadJson(analysis, `${analysis.fileName}_analysis.json`);
+
+    toast({
+      title: "Export completed",
+      description: "Full analysis exported to JSON file",
+    });
+  };
+
   return (
     <>
       {/* Process Summary */}
@@ -100,7 +100,15 @@ export function AnalysisResults({ analysis }: AnalysisResultsProps) {
           <CardTitle className="text-xl font-semibold text-bp-dark">{analysis.processName}</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div className="bg-blue-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-bp-blue">{analysis.totalStages}</div>
+              <div className="text-sm text-gray-600">Stages</div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-bp-dark">{analysis.subsheetCount}</div>
+              <div className="text-sm text-gray-600">Subsheets</div>
+            </div>
             <div className="bg-green-50 rounded-lg p-4 text-center">
               <div className="text-2xl font-bold text-bp-green">{analysis.vboCount}</div>
               <div className="text-sm text-gray-600">VBO Dependencies</div>
@@ -113,6 +121,39 @@ export function AnalysisResults({ analysis }: AnalysisResultsProps) {
         </CardContent>
       </Card>
 
+      {/* Stage Inventory */}
+      <StageInventory
+        stageInventory={analysis.stageInventory}
+        subsheetInventory={analysis.subsheetInventory}
+      />
+
+      {/* Process Flow */}
+      <FlowchartViewer pages={analysis.flowGraph} />
+
+      {/* Flow Findings */}
+      <FlowFindings findings={analysis.flowFindings} />
+
+      {/* Subsheet Call Graph */}
+      <CallGraphTree callGraph={analysis.callGraph} fileName={analysis.fileName} />
+
+      {/* Exception Handling */}
+      <ExceptionCoverage coverage={analysis.exceptionCoverage} />
+
+      {/* Design Standards */}
+      <RuleFindings findings={analysis.ruleFindings} />
+
+      {/* Data Items */}
+      <DataCatalogue dataItems={analysis.dataItems} />
+
+      {/* Expression Problems */}
+      <ExpressionIssues issues={analysis.expressionIssues} />
+
+      {/* Environment Variables and Credentials */}
+      <ConfigurationReport configuration={analysis.configuration} fileName={analysis.fileName} />
+
+      {/* Called Processes */}
+      <CalledProcesses processCalls={analysis.processCalls} />
+
       {/* Dependencies Table */}
       <Card className="card-shadow">
         <CardHeader className="border-b border-gray-200">
@@ -128,6 +169,10 @@ export function AnalysisResults({ analysis }: AnalysisResultsProps) {
                 <Download className="mr-2 h-4 w-4" />
                 Export CSV
               </Button>
+              <Button onClick={handleJsonExport} variant="outline">
+                <FileJson className="mr-2 h-4 w-4" />
+                Export JSON
+              </Button>
             </div>
           </div>
         </CardHeader>
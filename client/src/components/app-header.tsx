@@ -0,0 +1,44 @@
+import { Link, useLocation } from "wouter";
+import logoImagePath from "@assets/image_1754245003276.png";
+
+const navItems = [
+  { href: "/", label: "Analyze" },
+  { href: "/compare", label: "Compare" },
+  { href: "/history", label: "History" },
+  { href: "/where-used", label: "Where Used" },
+  { href: "/impact", label: "Impact" },
+];
+
+export function AppHeader() {
+  const [location] = useLocation();
+
+  return (
+    <header className="bg-white shadow-sm border-b border-gray-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 flex items-center justify-center">
+              <img src={logoImagePath} alt="Blue Prism Logo" className="w-10 h-10 rounded-lg" />
+            </div>
+            <div className="flex items-center h-10">
+              <h1 className="text-2xl font-bold text-bp-blue">Blue Prism Dependency Explorer</h1>
+            </div>
+          </div>
+          <nav className="flex items-center space-x-6">
+            {navItems.map(item => (
+              <Link
+                key={item.href}
+                href={item.href}
+                className={`text-sm font-medium ${
+                  location === item.href || location.startsWith(`${item.href}/`) ? "text-bp-blue" : "text-gray-600 hover:text-bp-dark"
+                }`}
+              >
+                {item.label}
+              </Link>
+            ))}
+          </nav>
+        </div>
+      </div>
+    </header>
+  );
+}
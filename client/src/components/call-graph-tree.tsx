@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChevronDown, ChevronRight, Download, FileText, Network, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { downloadCsv } from "@/lib/export";
+import type { CallGraph } from "@shared/schema";
+
+interface CallGraphTreeProps {
+  callGraph: CallGraph;
+  fileName: string;
+}
+
+const MAIN_PAGE_KEY = "main";
+
+export function CallGraphTree({ callGraph, fileName }: CallGraphTreeProps) {
+  const { toast } = useToast();
+
+  const pageNames = new Map(callGraph.pages.map(page => [page.key, page.name]));
+  const pageName = (key: string) => pageNames.get(key) || key;
+
+  const callees = new Map<string, string[]>();
+  callGraph.calls.forEach(call => {
+    if (!callees.has(call.from)) callees.set(call.from, []);
+    callees.get(call.from)!.push(call.to);
+  });
+
+  const handleExport = () => {
+    const csvRows = [["Caller Page", "Called Page", "SubSheet Stages"]];
+    callGraph.calls.forEach(call => {
+      csvRows.push([pageName(call.from), pageName(call.to), call.stageNames.join("; ")]);
+    });
+    callGraph.unresolvedCalls.forEach(call => {
+      csvRows.push([pageName(call.from), `(missing page ${call.target || "not set"})`, call.stageName]);
+    });
+
+    downloadCsv(csvRows, `${fileName}_call_graph.csv`);
+
+    toast({
+      title: "Export completed",
+      description: "Subsheet call graph exported to CSV file",
+    });
+  };
+
+  const PageNode = ({ pageKey, path, level = 0 }: { pageKey: string; path: string[]; level?: number }) => {
+    const [isExpanded, setIsExpanded] = useState(level < 2);
+    const isRecursive = path.includes(pageKey);
+    const children = isRecursive ? [] : callees.get(pageKey) || [];
+    const hasChildren = children.length > 0;
+
+    return (
+      <div className="ml-4">
+        <div
+          className={`flex items-center py-1 px-2 rounded hover:bg-gray-50 cursor-pointer ${
+            level === 0 ? 'font-semibold text-bp-dark' : ''
+          }`}
+          onClick={() => hasChildren && setIsExpanded(!isExpanded)}
+        >
+          {hasChildren ? (
+            isExpanded ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />
+          ) : (
+            <div className="w-5 mr-1" />
+          )}
+          <FileText className="h-4 w-4 mr-2 text-blue-500" />
+          <span className={level === 0 ? 'text-bp-dark' : 'text-gray-700'}>{pageName(pageKey)}</span>
+          {isRecursive && (
+            <Badge variant="outline" className="ml-2 text-xs bg-red-50 text-red-700 border-red-200">
+              <RotateCcw className="mr-1 h-3 w-3" />
+              recursive
+            </Badge>
+          )}
+        </div>
+
+        {hasChildren && isExpanded && (
+          <div className="ml-2">
+            {children.map(child => (
+              <PageNode key={child} pageKey={child} path={[...path, pageKey]} level={level + 1} />
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="card-shadow mb-6">
+      <CardHeader className="border-b border-gray-200">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-4 sm:space-y-0">
+          <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+            <Network className="mr-2 h-5 w-5" />
+            Subsheet call graph
+          </CardTitle>
+          <Button onClick={handleExport} className="bg-bp-green text-white hover:bg-green-600">
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+          <div className="bg-blue-50 rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold text-bp-blue">{callGraph.maxDepth}</div>
+            <div className="text-sm text-gray-600">Maximum call depth</div>
+          </div>
+          <div className="bg-orange-50 rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold text-bp-orange">{callGraph.orphanPages.length}</div>
+            <div className="text-sm text-gray-600">Pages never called from Main Page</div>
+          </div>
+          <div className="bg-red-50 rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold text-red-600">{callGraph.cycles.length}</div>
+            <div className="text-sm text-gray-600">Recursive cycles</div>
+          </div>
+        </div>
+
+        <div className="bg-gray-50 rounded-lg p-4 max-h-96 overflow-y-auto mb-6">
+          <PageNode pageKey={MAIN_PAGE_KEY} path={[]} />
+        </div>
+
+        {callGraph.orphanPages.length > 0 && (
+          <div className="mb-4">
+            <h5 className="font-medium text-sm text-gray-700 mb-2">Never called from Main Page:</h5>
+            <div className="flex flex-wrap gap-2">
+              {callGraph.orphanPages.map(key => (
+                <Badge key={key} variant="secondary" className="text-xs">{pageName(key)}</Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {callGraph.cycles.length > 0 && (
+          <div className="mb-4">
+            <h5 className="font-medium text-sm text-gray-700 mb-2">Recursive cycles:</h5>
+            <ul className="space-y-1">
+              {callGraph.cycles.map((cycle, index) => (
+                <li key={index} className="text-sm text-gray-700">
+                  {[...cycle, cycle[0]].map(pageName).join(" → ")}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {callGraph.unresolvedCalls.length > 0 && (
+          <div>
+            <h5 className="font-medium text-sm text-gray-700 mb-2">Calls to missing pages:</h5>
+            <ul className="space-y-1">
+              {callGraph.unresolvedCalls.map((call, index) => (
+                <li key={index} className="text-sm text-gray-700">
+                  <span className="font-medium">{call.stageName}</span>
+                  <span className="text-gray-500"> on {pageName(call.from)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
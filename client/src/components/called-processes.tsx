@@ -0,0 +1,66 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Workflow } from "lucide-react";
+import type { ProcessCall } from "@shared/schema";
+
+interface CalledProcessesProps {
+  processCalls: ProcessCall[];
+}
+
+export function CalledProcesses({ processCalls }: CalledProcessesProps) {
+  return (
+    <Card className="card-shadow mb-6">
+      <CardHeader className="border-b border-gray-200">
+        <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+          <Workflow className="mr-2 h-5 w-5" />
+          Called processes ({processCalls.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {processCalls.length === 0 ? (
+          <div className="text-center text-sm text-gray-500 py-4">
+            This process does not call any other process
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader className="bg-gray-50">
+                <TableRow>
+                  <TableHead>Called process</TableHead>
+                  <TableHead>Stage</TableHead>
+                  <TableHead>Subsheet</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {processCalls.map((call) => (
+                  <TableRow key={call.stageId} className="table-row hover:bg-gray-50">
+                    <TableCell>
+                      {call.calleeName ? (
+                        <div className="text-sm font-medium text-gray-900">{call.calleeName}</div>
+                      ) : (
+                        <Badge variant="outline" className="text-xs bg-yellow-100 text-yellow-800 border-yellow-200">
+                          Not in this upload
+                        </Badge>
+                      )}
+                      <div className="text-xs text-gray-500 mt-1 font-mono">{call.processId || "No process selected"}</div>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-700">{call.stageName}</TableCell>
+                    <TableCell className="text-sm text-gray-600">{call.page}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,159 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Code2, AlertTriangle } from "lucide-react";
+import { highlightCode } from "@/lib/highlight";
+import type { CodeInfo, RiskyCodeUsage } from "@shared/schema";
+
+interface CodeStagesProps {
+  code: CodeInfo;
+}
+
+const GLOBAL_CODE_KEY = "global";
+
+const riskyLabels: Record<RiskyCodeUsage["kind"], string> = {
+  "process-start": "Starts a process",
+  "file-delete": "Deletes files",
+  "thread-sleep": "Thread.Sleep",
+  "raw-sql": "Raw SQL",
+};
+
+const languageNames: Record<string, string> = {
+  visualbasic: "Visual Basic",
+  csharp: "C#",
+  jsharp: "J#",
+  python: "Python",
+};
+
+export function CodeStages({ code }: CodeStagesProps) {
+  const [selected, setSelected] = useState<string>(
+    code.codeStages[0]?.stageId ?? GLOBAL_CODE_KEY
+  );
+
+  const stage = code.codeStages.find(codeStage => codeStage.stageId === selected);
+  const source = stage ? stage.source : code.globalCode;
+  const lines = useMemo(() => highlightCode(source, code.language), [source, code.language]);
+
+  // Lines of the shown source with a risky call, for highlighting
+  const riskyLines = new Map<number, RiskyCodeUsage[]>();
+  code.riskyUsages
+    .filter(usage => (stage ? usage.stageId === stage.stageId : !usage.stageId))
+    .forEach(usage => riskyLines.set(usage.line, [...(riskyLines.get(usage.line) || []), usage]));
+
+  return (
+    <Card className="card-shadow mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-bp-dark flex items-center">
+          <Code2 className="mr-2 h-5 w-5" />
+          Code stages ({code.codeStages.length})
+          <Badge variant="secondary" className="ml-2 text-xs">{languageNames[code.language] || code.language}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* References and imports */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <h5 className="font-medium text-sm text-gray-700 mb-2">Referenced assemblies</h5>
+            <div className="flex flex-wrap gap-2">
+              {code.references.length > 0 ? code.references.map(reference => (
+                <Badge key={reference} variant="outline" className="text-xs font-mono">{reference}</Badge>
+              )) : <span className="text-sm text-gray-500">None</span>}
+            </div>
+          </div>
+          <div>
+            <h5 className="font-medium text-sm text-gray-700 mb-2">Imported namespaces</h5>
+            <div className="flex flex-wrap gap-2">
+              {code.imports.length > 0 ? code.imports.map(namespace => (
+                <Badge key={namespace} variant="outline" className="text-xs font-mono">{namespace}</Badge>
+              )) : <span className="text-sm text-gray-500">None</span>}
+            </div>
+          </div>
+        </div>
+
+        {/* Risky API usage */}
+        {code.riskyUsages.length > 0 && (
+          <div>
+            <h5 className="font-medium text-sm text-gray-700 mb-2 flex items-center">
+              <AlertTriangle className="mr-1 h-4 w-4 text-bp-orange" />
+              Risky API usage ({code.riskyUsages.length})
+            </h5>
+            <div className="space-y-1">
+              {code.riskyUsages.map((usage, index) => (
+                <button
+                  key={`${usage.stageId}-${usage.line}-${index}`}
+                  type="button"
+                  onClick={() => setSelected(usage.stageId ?? GLOBAL_CODE_KEY)}
+                  className="w-full text-left flex items-center bg-gray-50 hover:bg-gray-100 rounded-lg p-2"
+                >
+                  <Badge variant="outline" className="text-xs bg-orange-100 text-orange-800 border-orange-200">
+                    {riskyLabels[usage.kind]}
+                  </Badge>
+                  <span className="ml-2 text-sm font-medium text-gray-900">{usage.stageName}</span>
+                  <span className="ml-1 text-xs text-gray-500">line {usage.line}</span>
+                  <code className="ml-2 text-xs text-gray-600 truncate">{usage.snippet}</code>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Source viewer */}
+        <div>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-2 space-y-2 sm:space-y-0">
+            <Select value={selected} onValueChange={setSelected}>
+              <SelectTrigger className="w-80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={GLOBAL_CODE_KEY}>Global Code</SelectItem>
+                {code.codeStages.map(codeStage => (
+                  <SelectItem key={codeStage.stageId} value={codeStage.stageId}>
+                    {codeStage.stageName} ({codeStage.page})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {stage && (
+              <div className="text-xs text-gray-600 space-x-4">
+                <span>
+                  <span className="font-medium">In:</span>{" "}
+                  {stage.inputs.map(input => `${input.name} (${input.type})`).join(", ") || "none"}
+                </span>
+                <span>
+                  <span className="font-medium">Out:</span>{" "}
+                  {stage.outputs.map(output => `${output.name} (${output.type})`).join(", ") || "none"}
+                </span>
+              </div>
+            )}
+          </div>
+          <div className="bg-gray-50 rounded-lg border border-gray-200 max-h-96 overflow-auto">
+            {source.trim() ? (
+              <pre className="text-xs font-mono py-2">
+                {lines.map((tokens, index) => {
+                  const usages = riskyLines.get(index + 1);
+                  return (
+                    <div
+                      key={index}
+                      className={`flex ${usages ? "bg-orange-100" : ""}`}
+                      title={usages?.map(usage => riskyLabels[usage.kind]).join(", ")}
+                    >
+                      <span className="select-none text-gray-400 text-right w-10 pr-3 shrink-0">{index + 1}</span>
+                      <span className="whitespace-pre pr-4">
+                        {tokens.map((token, tokenIndex) => (
+                          <span key={tokenIndex} className={token.className}>{token.text}</span>
+                        ))}
+                      </span>
+                    </div>
+                  );
+                })}
+              </pre>
+            ) : (
+              <p className="text-sm text-gray-500 p-4">No code</p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
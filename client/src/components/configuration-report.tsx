@@ -0,0 +1,139 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, KeyRound } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { downloadCsv } from "@/lib/export";
+import type { ConfigurationReport as ConfigurationReportData } from "@shared/schema";
+
+interface ConfigurationReportProps {
+  configuration: ConfigurationReportData;
+  fileName: string;
+}
+
+export function ConfigurationReport({ configuration, fileName }: ConfigurationReportProps) {
+  const { toast } = useToast();
+  const { environmentVariables, credentials } = configuration;
+
+  const handleExport = () => {
+    const csvRows = [["Kind", "Name", "Type / Action", "Default Value / Expression", "Locations"]];
+    environmentVariables.forEach(variable => {
+      csvRows.push(["Environment variable", variable.name, variable.dataType, variable.defaultValue, variable.pages.join("; ")]);
+    });
+    credentials.forEach(credential => {
+      csvRows.push([
+        "Credential",
+        credential.credentialName || "",
+        credential.actionName,
+        credential.expression,
+        `${credential.stageName} (${credential.page})`,
+      ]);
+    });
+
+    downloadCsv(csvRows, `${fileName}_configuration.csv`);
+
+    toast({
+      title: "Export completed",
+      description: "Environment variables and credentials exported to CSV file",
+    });
+  };
+
+  return (
+    <Card className="card-shadow mb-6">
+      <CardHeader className="border-b border-gray-200">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-4 sm:space-y-0">
+          <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+            <KeyRound className="mr-2 h-5 w-5" />
+            Environment variables and credentials
+          </CardTitle>
+          <Button onClick={handleExport} className="bg-bp-green text-white hover:bg-green-600">
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        <div>
+          <h5 className="font-medium text-sm text-gray-700 mb-2">
+            Environment variables ({environmentVariables.length})
+          </h5>
+          {environmentVariables.length === 0 ? (
+            <p className="text-sm text-gray-500">No data items are exposed as environment variables</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Default value</TableHead>
+                    <TableHead>Pages</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {environmentVariables.map((variable) => (
+                    <TableRow key={variable.name} className="table-row hover:bg-gray-50">
+                      <TableCell className="text-sm font-medium text-gray-900">{variable.name}</TableCell>
+                      <TableCell className="text-sm text-gray-700">{variable.dataType}</TableCell>
+                      <TableCell className="text-sm text-gray-700 font-mono break-all">{variable.defaultValue}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{variable.pages.join(", ")}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h5 className="font-medium text-sm text-gray-700 mb-2">
+            Credentials ({credentials.length})
+          </h5>
+          {credentials.length === 0 ? (
+            <p className="text-sm text-gray-500">No Credentials actions are used</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead>Credential</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Stage</TableHead>
+                    <TableHead>Subsheet</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {credentials.map((credential) => (
+                    <TableRow key={credential.stageId} className="table-row hover:bg-gray-50">
+                      <TableCell>
+                        {credential.credentialName ? (
+                          <div className="text-sm font-medium text-gray-900">{credential.credentialName}</div>
+                        ) : (
+                          <Badge variant="outline" className="text-xs bg-yellow-100 text-yellow-800 border-yellow-200">
+                            Set at run time
+                          </Badge>
+                        )}
+                        <div className="text-xs text-gray-500 mt-1 font-mono">{credential.expression}</div>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-700">{credential.actionName}</TableCell>
+                      <TableCell className="text-sm text-gray-700">{credential.stageName}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{credential.page}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Database } from "lucide-react";
+import type { DataItem, DataItemUsage } from "@shared/schema";
+
+interface DataCatalogueProps {
+  dataItems: DataItem[];
+}
+
+const statusLabels: Record<DataItem["status"], { label: string; className: string } | undefined> = {
+  used: undefined,
+  unused: { label: "Unused", className: "bg-orange-100 text-orange-800 border-orange-200" },
+  "write-only": { label: "Write-only", className: "bg-yellow-100 text-yellow-800 border-yellow-200" },
+};
+
+export function DataCatalogue({ dataItems }: DataCatalogueProps) {
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+
+  const filteredItems = useMemo(() => {
+    const filtered = statusFilter === "all"
+      ? dataItems
+      : statusFilter === "flagged"
+        ? dataItems.filter(item => item.status !== "used")
+        : dataItems.filter(item => item.status === statusFilter);
+
+    // Show flagged items first, then by page and name
+    return filtered.slice().sort((a, b) =>
+      Number(a.status === "used") - Number(b.status === "used") ||
+      a.page.localeCompare(b.page) ||
+      a.name.toLowerCase().localeCompare(b.name.toLowerCase())
+    );
+  }, [dataItems, statusFilter]);
+
+  const unusedCount = dataItems.filter(item => item.status === "unused").length;
+  const writeOnlyCount = dataItems.filter(item => item.status === "write-only").length;
+
+  return (
+    <Card className="card-shadow mb-6">
+      <CardHeader className="border-b border-gray-200">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-4 sm:space-y-0">
+          <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+            <Database className="mr-2 h-5 w-5" />
+            Data items ({dataItems.length})
+          </CardTitle>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All items</SelectItem>
+              <SelectItem value="flagged">Unused or write-only</SelectItem>
+              <SelectItem value="unused">Unused ({unusedCount})</SelectItem>
+              <SelectItem value="write-only">Write-only ({writeOnlyCount})</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6">
+        <div className="overflow-x-auto max-h-[600px] overflow-y-auto">
+          <Table>
+            <TableHeader className="bg-gray-50">
+              <TableRow>
+                <TableHead>Data item</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Initial value</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Read by</TableHead>
+                <TableHead>Written by</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredItems.map((item) => {
+                const status = statusLabels[item.status];
+                return (
+                  <TableRow key={item.stageId} className="table-row hover:bg-gray-50">
+                    <TableCell>
+                      <div className="text-sm font-medium text-gray-900">{item.name}</div>
+                      <div className="text-xs text-gray-500">{item.page}</div>
+                      {status && (
+                        <Badge variant="outline" className={`mt-1 text-xs ${status.className}`}>
+                          {status.label}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-700">
+                      {item.dataType}
+                      {item.fields && item.fields.length > 0 && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {item.fields.map(field => `${field.name}: ${field.type}`).join(", ")}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-700 font-mono break-all max-w-xs">
+                      {item.initialValue}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="secondary" className="text-xs">
+                          {item.scope === "page" ? "Page only" : "Global"}
+                        </Badge>
+                        {item.exposure !== "None" && (
+                          <Badge variant="outline" className="text-xs bg-blue-50 text-blue-700 border-blue-200">
+                            {item.exposure}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell><UsageList usages={item.reads} /></TableCell>
+                    <TableCell><UsageList usages={item.writes} /></TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        {filteredItems.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No data items found matching your criteria</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function UsageList({ usages }: { usages: DataItemUsage[] }) {
+  if (usages.length === 0) {
+    return <span className="text-sm text-gray-400 italic">None</span>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {usages.map((usage) => (
+        <div key={usage.stageId} className="text-xs text-gray-700">
+          <span className="font-medium">{usage.stageName}</span>
+          <span className="text-gray-500"> ({usage.stageType}, {usage.page})</span>
+        </div>
+      ))}
+    </div>
+  );
+}
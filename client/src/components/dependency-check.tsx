@@ -0,0 +1,93 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, CheckCircle2, Link2 } from "lucide-react";
+import type { DependencyIssue, DependencyResolution } from "@shared/schema";
+
+interface DependencyCheckProps {
+  resolution: DependencyResolution;
+}
+
+const issueLabels: Record<DependencyIssue["kind"], { label: string; className: string }> = {
+  "missing-object": { label: "Missing object", className: "bg-red-100 text-red-800 border-red-200" },
+  "missing-action": { label: "Missing action", className: "bg-orange-100 text-orange-800 border-orange-200" },
+  "unused-action": { label: "Unused action", className: "bg-gray-100 text-gray-700 border-gray-200" },
+};
+
+export function DependencyCheck({ resolution }: DependencyCheckProps) {
+  const brokenCount = resolution.issues.filter(issue => issue.kind !== "unused-action").length;
+
+  return (
+    <Card className="card-shadow mb-6">
+      <CardHeader className="border-b border-gray-200">
+        <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+          <Link2 className="mr-2 h-5 w-5" />
+          Dependency check
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div className="bg-green-50 rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold text-bp-green">{resolution.resolvedCalls}</div>
+            <div className="text-sm text-gray-600">Resolved action calls</div>
+          </div>
+          <div className="bg-red-50 rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold text-red-600">{brokenCount}</div>
+            <div className="text-sm text-gray-600">Broken references</div>
+          </div>
+        </div>
+
+        {resolution.issues.length === 0 ? (
+          <div className="flex items-center justify-center text-sm text-gray-600 py-4">
+            <CheckCircle2 className="mr-2 h-4 w-4 text-bp-green" />
+            Every called action resolves to an object in this upload
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader className="bg-gray-50">
+                <TableRow>
+                  <TableHead>Issue</TableHead>
+                  <TableHead>Business Object</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Called from</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {resolution.issues.map((issue, index) => (
+                  <TableRow key={index} className="table-row hover:bg-gray-50">
+                    <TableCell>
+                      <Badge variant="outline" className={`text-xs ${issueLabels[issue.kind].className}`}>
+                        {issue.kind !== "unused-action" && <AlertTriangle className="mr-1 h-3 w-3" />}
+                        {issueLabels[issue.kind].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm font-medium text-gray-900">{issue.objectName}</TableCell>
+                    <TableCell className="text-sm text-gray-700">{issue.actionName || "—"}</TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {issue.processName ? (
+                        <>
+                          <div className="font-medium">{issue.processName}</div>
+                          <div className="text-xs text-gray-500">{issue.locations.join(", ")}</div>
+                        </>
+                      ) : (
+                        <span className="italic">Not called by any process</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,220 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { CheckCircle2, GitCompare, Layers, Package, Workflow } from "lucide-react";
+import type { DiffChange, FieldChange, ProcessDiff } from "@shared/schema";
+
+interface DiffResultsProps {
+  diff: ProcessDiff;
+}
+
+export const changeStyles: Record<DiffChange, string> = {
+  added: "bg-green-100 text-green-800 border-green-200",
+  removed: "bg-red-100 text-red-800 border-red-200",
+  modified: "bg-yellow-100 text-yellow-800 border-yellow-200",
+};
+
+const categoryLabels: Record<FieldChange["category"], string> = {
+  link: "Link",
+  expression: "Expression",
+  data: "Data",
+  element: "Element",
+  property: "Property",
+};
+
+export function FieldChanges({ changes }: { changes: FieldChange[] }) {
+  return (
+    <div className="space-y-2">
+      {changes.map(change => (
+        <div key={change.field} className="bg-gray-50 rounded-lg p-2">
+          <div className="flex items-center">
+            <Badge variant="outline" className="text-xs">{categoryLabels[change.category]}</Badge>
+            <code className="ml-2 text-xs text-gray-700">{change.field}</code>
+          </div>
+          <div className="mt-1 text-xs font-mono whitespace-pre-wrap break-all">
+            {change.before !== undefined && change.before !== "" && (
+              <div className="text-red-700 bg-red-50 rounded px-1">- {change.before}</div>
+            )}
+            {change.after !== undefined && change.after !== "" && (
+              <div className="text-green-700 bg-green-50 rounded px-1">+ {change.after}</div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function DiffResults({ diff }: DiffResultsProps) {
+  const totalChanges = diff.properties.length + diff.pages.length + diff.stages.length +
+    diff.dependencies.length + diff.elements.length;
+
+  return (
+    <>
+      {/* Diff Summary */}
+      <Card className="card-shadow mb-6">
+        <CardHeader className="border-b border-gray-200">
+          <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+            <GitCompare className="mr-2 h-5 w-5" />
+            {diff.oldName === diff.newName ? diff.newName : `${diff.oldName} → ${diff.newName}`}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
+            <div className="bg-green-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-bp-green">{diff.summary.added}</div>
+              <div className="text-sm text-gray-600">Stages added</div>
+            </div>
+            <div className="bg-red-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-red-600">{diff.summary.removed}</div>
+              <div className="text-sm text-gray-600">Stages removed</div>
+            </div>
+            <div className="bg-yellow-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-yellow-700">{diff.summary.modified}</div>
+              <div className="text-sm text-gray-600">Stages modified</div>
+            </div>
+            <div className="bg-blue-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-bp-blue">{diff.dependencies.length}</div>
+              <div className="text-sm text-gray-600">Dependency changes</div>
+            </div>
+            <div className="bg-blue-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-bp-blue">{diff.elements.length}</div>
+              <div className="text-sm text-gray-600">Element changes</div>
+            </div>
+          </div>
+
+          {totalChanges === 0 && (
+            <div className="flex items-center justify-center text-sm text-gray-600 py-4">
+              <CheckCircle2 className="mr-2 h-4 w-4 text-bp-green" />
+              No differences apart from layout
+            </div>
+          )}
+
+          {diff.properties.length > 0 && (
+            <div className="mb-4">
+              <h5 className="font-medium text-sm text-gray-700 mb-2">{diff.kind === "process" ? "Process" : "Object"} properties</h5>
+              <FieldChanges changes={diff.properties} />
+            </div>
+          )}
+
+          {diff.pages.length > 0 && (
+            <div>
+              <h5 className="font-medium text-sm text-gray-700 mb-2">Pages</h5>
+              <div className="space-y-2">
+                {diff.pages.map(page => (
+                  <div key={page.name} className="bg-gray-50 rounded-lg p-2">
+                    <div className="flex items-center">
+                      <Badge variant="outline" className={`text-xs ${changeStyles[page.change]}`}>{page.change}</Badge>
+                      <span className="ml-2 text-sm font-medium text-gray-900">{page.name}</span>
+                    </div>
+                    {page.changes.length > 0 && (
+                      <div className="mt-2">
+                        <FieldChanges changes={page.changes} />
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Stage Changes */}
+      {diff.stages.length > 0 && (
+        <Card className="card-shadow mb-6">
+          <CardHeader className="border-b border-gray-200">
+            <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+              <Workflow className="mr-2 h-5 w-5" />
+              Stage changes ({diff.stages.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <Accordion type="multiple">
+              {diff.stages.map(stage => (
+                <AccordionItem key={`${stage.change}-${stage.stageId}`} value={`${stage.change}-${stage.stageId}`}>
+                  <AccordionTrigger className="text-sm text-gray-900" disabled={stage.changes.length === 0}>
+                    <span className="flex items-center text-left">
+                      <Badge variant="outline" className={`text-xs ${changeStyles[stage.change]}`}>{stage.change}</Badge>
+                      <span className="ml-2">{stage.stageName}</span>
+                      <span className="ml-2 text-xs text-gray-500">{stage.stageType}, {stage.page}</span>
+                      {stage.matchedBy === "name" && (
+                        <Badge variant="secondary" className="ml-2 text-xs">matched by name</Badge>
+                      )}
+                      {stage.changes.length > 0 && (
+                        <Badge variant="secondary" className="ml-2 text-xs">{stage.changes.length}</Badge>
+                      )}
+                    </span>
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <FieldChanges changes={stage.changes} />
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Dependency Changes */}
+      {diff.dependencies.length > 0 && (
+        <Card className="card-shadow mb-6">
+          <CardHeader className="border-b border-gray-200">
+            <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+              <Package className="mr-2 h-5 w-5" />
+              VBO dependency changes ({diff.dependencies.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-2">
+            {diff.dependencies.map(dependency => (
+              <div key={dependency.objectName} className="bg-gray-50 rounded-lg p-2">
+                <div className="flex items-center">
+                  <Badge variant="outline" className={`text-xs ${changeStyles[dependency.change]}`}>{dependency.change}</Badge>
+                  <span className="ml-2 text-sm font-medium text-gray-900">{dependency.objectName}</span>
+                </div>
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {dependency.addedActions.map(action => (
+                    <Badge key={`+${action}`} variant="outline" className={`text-xs ${changeStyles.added}`}>+ {action}</Badge>
+                  ))}
+                  {dependency.removedActions.map(action => (
+                    <Badge key={`-${action}`} variant="outline" className={`text-xs ${changeStyles.removed}`}>- {action}</Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Application Modeller Changes */}
+      {diff.elements.length > 0 && (
+        <Card className="card-shadow mb-6">
+          <CardHeader className="border-b border-gray-200">
+            <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+              <Layers className="mr-2 h-5 w-5" />
+              Application Modeller changes ({diff.elements.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <Accordion type="multiple">
+              {diff.elements.map(element => (
+                <AccordionItem key={`${element.change}-${element.elementId}`} value={`${element.change}-${element.elementId}`}>
+                  <AccordionTrigger className="text-sm text-gray-900" disabled={element.changes.length === 0}>
+                    <span className="flex items-center text-left">
+                      <Badge variant="outline" className={`text-xs ${changeStyles[element.change]}`}>{element.change}</Badge>
+                      <span className="ml-2">{element.name}</span>
+                      <span className="ml-2 text-xs text-gray-500 truncate">{element.path}</span>
+                    </span>
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <FieldChanges changes={element.changes} />
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
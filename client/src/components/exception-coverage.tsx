@@ -0,0 +1,129 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ShieldAlert } from "lucide-react";
+import type { ExceptionCoverage as ExceptionCoverageData, ExceptionFinding } from "@shared/schema";
+
+interface ExceptionCoverageProps {
+  coverage: ExceptionCoverageData;
+}
+
+const findingLabels: Record<ExceptionFinding["kind"], { label: string; className: string }> = {
+  "recover-without-resume": { label: "Recover without Resume", className: "bg-orange-100 text-orange-800 border-orange-200" },
+  "exception-without-detail": { label: "Exception without detail", className: "bg-yellow-100 text-yellow-800 border-yellow-200" },
+  "unprotected-action": { label: "Unprotected action", className: "bg-red-100 text-red-800 border-red-200" },
+};
+
+export function ExceptionCoverage({ coverage }: ExceptionCoverageProps) {
+  // Pages without any stage that can fail say nothing about coverage
+  const pages = coverage.pages.filter(page => page.stageCount > 0);
+
+  return (
+    <Card className="card-shadow mb-6">
+      <CardHeader className="border-b border-gray-200">
+        <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+          <ShieldAlert className="mr-2 h-5 w-5" />
+          Exception handling coverage
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+          <div className="bg-blue-50 rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold text-bp-blue">{coverage.coverage}%</div>
+            <div className="text-sm text-gray-600">Stages covered by a Recover stage</div>
+          </div>
+          <div className="bg-red-50 rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold text-red-600">{coverage.unprotectedStages.length}</div>
+            <div className="text-sm text-gray-600">Unprotected stages</div>
+          </div>
+          <div className="bg-orange-50 rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold text-bp-orange">{coverage.findings.length}</div>
+            <div className="text-sm text-gray-600">Findings</div>
+          </div>
+        </div>
+
+        {/* Per-page coverage */}
+        <div className="overflow-x-auto mb-6">
+          <Table>
+            <TableHeader className="bg-gray-50">
+              <TableRow>
+                <TableHead>Page</TableHead>
+                <TableHead>Protected stages</TableHead>
+                <TableHead className="w-1/3">Coverage</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pages.map((page) => (
+                <TableRow key={page.subsheetId || page.name} className="table-row hover:bg-gray-50">
+                  <TableCell>
+                    <div className="text-sm font-medium text-gray-900">{page.name}</div>
+                    {!page.hasRecovery && (
+                      <Badge variant="outline" className="mt-1 text-xs bg-red-50 text-red-700 border-red-200">
+                        No Recover stage
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-700">
+                    {page.protectedCount} of {page.stageCount}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      <Progress value={page.coverage} className="h-2" />
+                      <span className="text-sm text-gray-700 w-14 text-right">{page.coverage}%</span>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <Accordion type="multiple">
+          <AccordionItem value="findings">
+            <AccordionTrigger className="text-sm text-gray-900">
+              Findings ({coverage.findings.length})
+            </AccordionTrigger>
+            <AccordionContent>
+              <div className="space-y-2">
+                {coverage.findings.map((finding, index) => (
+                  <div key={`${finding.stageId}-${index}`} className="flex items-center bg-gray-50 rounded-lg p-2">
+                    <Badge variant="outline" className={`text-xs ${findingLabels[finding.kind].className}`}>
+                      {findingLabels[finding.kind].label}
+                    </Badge>
+                    <span className="ml-2 text-sm font-medium text-gray-900">{finding.stageName}</span>
+                    <span className="ml-2 text-xs text-gray-500">{finding.page}</span>
+                    {finding.detail && <span className="ml-2 text-xs text-gray-500">– {finding.detail}</span>}
+                  </div>
+                ))}
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+          <AccordionItem value="unprotected">
+            <AccordionTrigger className="text-sm text-gray-900">
+              Unprotected stages ({coverage.unprotectedStages.length})
+            </AccordionTrigger>
+            <AccordionContent>
+              <div className="space-y-1">
+                {coverage.unprotectedStages.map((stage) => (
+                  <div key={stage.stageId} className="text-sm text-gray-700">
+                    <span className="font-medium">{stage.stageName}</span>
+                    <span className="text-gray-500"> ({stage.stageType}, {stage.page})</span>
+                  </div>
+                ))}
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+        </Accordion>
+      </CardContent>
+    </Card>
+  );
+}
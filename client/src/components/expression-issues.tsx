@@ -0,0 +1,77 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { CheckCircle2, Calculator } from "lucide-react";
+import type { ExpressionIssue } from "@shared/schema";
+
+interface ExpressionIssuesProps {
+  issues: ExpressionIssue[];
+}
+
+const issueLabels: Record<ExpressionIssue["kind"], { label: string; className: string }> = {
+  "syntax-error": { label: "Syntax error", className: "bg-red-100 text-red-800 border-red-200" },
+  "missing-item": { label: "Missing data item", className: "bg-orange-100 text-orange-800 border-orange-200" },
+  "unknown-function": { label: "Unknown function", className: "bg-red-100 text-red-800 border-red-200" },
+  "type-mismatch": { label: "Type mismatch", className: "bg-yellow-100 text-yellow-800 border-yellow-200" },
+};
+
+export function ExpressionIssues({ issues }: ExpressionIssuesProps) {
+  // One entry per stage, keeping the order the stages were found in
+  const stages = new Map<string, ExpressionIssue[]>();
+  issues.forEach(issue => {
+    stages.set(issue.stageId, [...(stages.get(issue.stageId) || []), issue]);
+  });
+
+  return (
+    <Card className="card-shadow mb-6">
+      <CardHeader className="border-b border-gray-200">
+        <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+          <Calculator className="mr-2 h-5 w-5" />
+          Expression problems ({stages.size} stages)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {stages.size === 0 ? (
+          <div className="flex items-center justify-center text-sm text-gray-600 py-4">
+            <CheckCircle2 className="mr-2 h-4 w-4 text-bp-green" />
+            Every Calculation and Decision expression is valid
+          </div>
+        ) : (
+          <Accordion type="multiple">
+            {Array.from(stages.entries()).map(([stageId, stageIssues]) => {
+              const first = stageIssues[0];
+              return (
+                <AccordionItem key={stageId} value={stageId}>
+                  <AccordionTrigger className="text-sm text-gray-900">
+                    <span className="flex items-center text-left">
+                      {first.stageName}
+                      <span className="ml-2 text-xs text-gray-500">{first.stageType}, {first.page}</span>
+                      <Badge variant="secondary" className="ml-2 text-xs">{stageIssues.length}</Badge>
+                    </span>
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <div className="space-y-2">
+                      {stageIssues.map((issue, index) => (
+                        <div key={index} className="bg-gray-50 rounded-lg p-2">
+                          <div className="flex items-center">
+                            <Badge variant="outline" className={`text-xs ${issueLabels[issue.kind].className}`}>
+                              {issueLabels[issue.kind].label}
+                            </Badge>
+                            <span className="ml-2 text-sm text-gray-700">{issue.message}</span>
+                          </div>
+                          {issue.expression && (
+                            <pre className="text-xs text-gray-600 mt-1 font-mono whitespace-pre-wrap break-all">{issue.expression}</pre>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </AccordionContent>
+                </AccordionItem>
+              );
+            })}
+          </Accordion>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,49 @@
+import { useDropzone } from "react-dropzone";
+import { FileCode } from "lucide-react";
+
+interface FileSlotProps {
+  label: string;
+  file: File | null;
+  onFile: (file: File) => void;
+  extensions?: string[];
+}
+
+const DEFAULT_EXTENSIONS = ['.bpprocess', '.bpobject', '.bprelease'];
+
+function describeExtensions(extensions: string[]): string {
+  if (extensions.length === 1) return `a ${extensions[0]}`;
+  return `a ${extensions.slice(0, -1).join(', ')} or ${extensions[extensions.length - 1]}`;
+}
+
+// Drop zone holding a single file, for pages that take a fixed set of files
+export function FileSlot({ label, file, onFile, extensions = DEFAULT_EXTENSIONS }: FileSlotProps) {
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: (acceptedFiles: File[]) => acceptedFiles[0] && onFile(acceptedFiles[0]),
+    accept: {
+      'application/xml': extensions,
+      'text/xml': extensions,
+    },
+    maxFiles: 1,
+    multiple: false,
+  });
+
+  return (
+    <div
+      {...getRootProps()}
+      className={`upload-zone border-2 border-dashed rounded-xl p-8 cursor-pointer text-center transition-all duration-300 ${
+        isDragActive ? 'border-bp-blue bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+      }`}
+    >
+      <input {...getInputProps()} />
+      <p className="text-sm font-medium text-gray-700 mb-2">{label}</p>
+      {file ? (
+        <div className="flex items-center justify-center space-x-2">
+          <FileCode className="text-bp-blue h-5 w-5" />
+          <span className="text-sm text-gray-900">{file.name}</span>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Drop {describeExtensions(extensions)} file here</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CheckCircle2, SearchX } from "lucide-react";
+import type { FlowFinding } from "@shared/schema";
+
+interface FlowFindingsProps {
+  findings: FlowFinding[];
+}
+
+const findingLabels: Record<FlowFinding["kind"], { label: string; className: string }> = {
+  "unreachable-stage": { label: "Unreachable stage", className: "bg-orange-100 text-orange-800 border-orange-200" },
+  "unreachable-end": { label: "End never reached", className: "bg-yellow-100 text-yellow-800 border-yellow-200" },
+  "dangling-link": { label: "Dangling link", className: "bg-red-100 text-red-800 border-red-200" },
+  "missing-branch": { label: "Missing branch", className: "bg-red-100 text-red-800 border-red-200" },
+};
+
+export function FlowFindings({ findings }: FlowFindingsProps) {
+  return (
+    <Card className="card-shadow mb-6">
+      <CardHeader className="border-b border-gray-200">
+        <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+          <SearchX className="mr-2 h-5 w-5" />
+          Dead stages and broken paths ({findings.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {findings.length === 0 ? (
+          <div className="flex items-center justify-center text-sm text-gray-600 py-4">
+            <CheckCircle2 className="mr-2 h-4 w-4 text-bp-green" />
+            Every stage is reachable from its page's Start stage
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader className="bg-gray-50">
+                <TableRow>
+                  <TableHead>Finding</TableHead>
+                  <TableHead>Stage</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Subsheet</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {findings.map((finding, index) => (
+                  <TableRow key={`${finding.stageId}-${finding.kind}-${index}`} className="table-row hover:bg-gray-50">
+                    <TableCell>
+                      <Badge variant="outline" className={`text-xs ${findingLabels[finding.kind].className}`}>
+                        {findingLabels[finding.kind].label}
+                      </Badge>
+                      {finding.detail && <div className="text-xs text-gray-500 mt-1">{finding.detail}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm font-medium text-gray-900">{finding.stageName}</TableCell>
+                    <TableCell className="text-sm text-gray-700">{finding.stageType}</TableCell>
+                    <TableCell className="text-sm text-gray-600">{finding.page}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
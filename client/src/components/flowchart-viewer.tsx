@@ -0,0 +1,265 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GitBranch, ZoomIn, ZoomOut, LocateFixed } from "lucide-react";
+import type { FlowEdge, FlowNode, FlowPage } from "@shared/schema";
+
+interface FlowchartViewerProps {
+  pages: FlowPage[];
+}
+
+// Size of the visible canvas in Blue Prism units at zoom 1
+const VIEW_WIDTH = 1000;
+const VIEW_HEIGHT = 500;
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 5;
+
+const stageColors: Record<string, { fill: string; stroke: string }> = {
+  Start: { fill: "#dcfce7", stroke: "#16a34a" },
+  End: { fill: "#dcfce7", stroke: "#16a34a" },
+  Action: { fill: "#dbeafe", stroke: "#2563eb" },
+  SubSheet: { fill: "#e0e7ff", stroke: "#4f46e5" },
+  Process: { fill: "#e0e7ff", stroke: "#4f46e5" },
+  Decision: { fill: "#fef3c7", stroke: "#d97706" },
+  Calculation: { fill: "#ffedd5", stroke: "#ea580c" },
+  MultipleCalculation: { fill: "#ffedd5", stroke: "#ea580c" },
+  Exception: { fill: "#fee2e2", stroke: "#dc2626" },
+  Recover: { fill: "#fee2e2", stroke: "#dc2626" },
+  Resume: { fill: "#fee2e2", stroke: "#dc2626" },
+  Note: { fill: "#fef9c3", stroke: "#ca8a04" },
+  Block: { fill: "rgba(125, 178, 229, 0.12)", stroke: "#7fb2e5" },
+};
+
+const defaultColors = { fill: "#f3f4f6", stroke: "#6b7280" };
+
+const edgeLabels: Partial<Record<FlowEdge["kind"], string>> = {
+  true: "Yes",
+  false: "No",
+};
+
+export function FlowchartViewer({ pages }: FlowchartViewerProps) {
+  const [pageIndex, setPageIndex] = useState(0);
+  // Until the reset below runs, a page index past the end of a newly loaded
+  // process falls back to its first page
+  const page = pages[pageIndex] ?? pages[0];
+
+  const [camera, setCamera] = useState(page?.view ?? { cameraX: 0, cameraY: 0, zoom: 1 });
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragStart = useRef<{ x: number; y: number; cameraX: number; cameraY: number } | null>(null);
+
+  // Another process starts on its first page
+  useEffect(() => {
+    setPageIndex(0);
+  }, [pages]);
+
+  // Each page opens at the camera position saved in Blue Prism
+  useEffect(() => {
+    if (page) setCamera(page.view);
+  }, [page]);
+
+  const nodesById = useMemo(() => {
+    const map = new Map<string, FlowNode>();
+    page?.nodes.forEach(node => map.set(node.id, node));
+    return map;
+  }, [page]);
+
+  // Wheel zoom needs a non-passive listener so the page does not scroll. The
+  // svg only exists while there is a page to draw, so attach it once it does.
+  const hasPage = !!page;
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const factor = event.deltaY < 0 ? 1.1 : 1 / 1.1;
+      setCamera(current => ({ ...current, zoom: clampZoom(current.zoom * factor) }));
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, [hasPage]);
+
+  if (!page) return null;
+
+  const viewWidth = VIEW_WIDTH / camera.zoom;
+  const viewHeight = VIEW_HEIGHT / camera.zoom;
+  const viewBox = `${camera.cameraX - viewWidth / 2} ${camera.cameraY - viewHeight / 2} ${viewWidth} ${viewHeight}`;
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = { x: event.clientX, y: event.clientY, cameraX: camera.cameraX, cameraY: camera.cameraY };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!dragStart.current || !svgRef.current) return;
+    // Convert screen pixels to Blue Prism units at the current zoom
+    const unitsPerPixel = viewWidth / svgRef.current.clientWidth;
+    const start = dragStart.current;
+    setCamera(current => ({
+      ...current,
+      cameraX: start.cameraX - (event.clientX - start.x) * unitsPerPixel,
+      cameraY: start.cameraY - (event.clientY - start.y) * unitsPerPixel,
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  // Blocks are regions drawn behind everything else
+  const blocks = page.nodes.filter(node => node.type === "Block");
+  const stages = page.nodes.filter(node => node.type !== "Block");
+
+  return (
+    <Card className="card-shadow mb-6">
+      <CardHeader className="border-b border-gray-200">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-4 sm:space-y-0">
+          <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+            <GitBranch className="mr-2 h-5 w-5" />
+            Process flow
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            <Select value={String(pageIndex)} onValueChange={(value) => setPageIndex(Number(value))}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pages.map((flowPage, index) => (
+                  <SelectItem key={flowPage.subsheetId || flowPage.name} value={String(index)}>
+                    {flowPage.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => setCamera(c => ({ ...c, zoom: clampZoom(c.zoom * 1.25) }))}>
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setCamera(c => ({ ...c, zoom: clampZoom(c.zoom / 1.25) }))}>
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setCamera(page.view)}>
+              <LocateFixed className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        <svg
+          ref={svgRef}
+          viewBox={viewBox}
+          className="w-full h-[500px] bg-white cursor-grab active:cursor-grabbing select-none touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        >
+          <defs>
+            <marker id="flow-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280" />
+            </marker>
+          </defs>
+
+          {blocks.map(node => (
+            <StageShape key={node.id} node={node} />
+          ))}
+
+          {page.edges.map((edge, index) => {
+            const from = nodesById.get(edge.from);
+            const to = nodesById.get(edge.to);
+            if (!from || !to) return null;
+            return <FlowLink key={`${edge.from}-${edge.to}-${index}`} edge={edge} from={from} to={to} />;
+          })}
+
+          {stages.map(node => (
+            <StageShape key={node.id} node={node} />
+          ))}
+        </svg>
+      </CardContent>
+    </Card>
+  );
+}
+
+function StageShape({ node }: { node: FlowNode }) {
+  const colors = stageColors[node.type] || defaultColors;
+  const left = node.x - node.width / 2;
+  const top = node.y - node.height / 2;
+
+  let shape: JSX.Element;
+  if (node.type === "Decision") {
+    const points = [
+      `${node.x},${top}`,
+      `${node.x + node.width / 2},${node.y}`,
+      `${node.x},${top + node.height}`,
+      `${left},${node.y}`,
+    ].join(" ");
+    shape = <polygon points={points} fill={colors.fill} stroke={colors.stroke} />;
+  } else if (node.type === "Anchor") {
+    shape = <circle cx={node.x} cy={node.y} r={Math.min(node.width, node.height) / 2} fill={colors.stroke} />;
+  } else {
+    // Start, End, Recover and Resume are drawn as pills like in Blue Prism
+    const radius = ["Start", "End", "Resume", "Recover"].includes(node.type) ? node.height / 2 : 2;
+    shape = (
+      <rect
+        x={left}
+        y={top}
+        width={node.width}
+        height={node.height}
+        rx={radius}
+        fill={colors.fill}
+        stroke={colors.stroke}
+        strokeDasharray={node.type === "Block" ? "4 2" : undefined}
+      />
+    );
+  }
+
+  return (
+    <g>
+      <title>{`${node.name} (${node.type})`}</title>
+      {shape}
+      {node.type !== "Anchor" && (
+        <text
+          x={node.x}
+          y={node.type === "Block" ? top + 12 : node.y}
+          textAnchor="middle"
+          dominantBaseline="middle"
+          fontSize={9}
+          fill="#111827"
+        >
+          {truncate(node.name, Math.max(8, Math.floor(node.width / 5)))}
+        </text>
+      )}
+    </g>
+  );
+}
+
+function FlowLink({ edge, from, to }: { edge: FlowEdge; from: FlowNode; to: FlowNode }) {
+  // End the line on the target's bounding box so the arrow head stays visible
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const scale = Math.min(
+    dx === 0 ? Infinity : (to.width / 2) / Math.abs(dx),
+    dy === 0 ? Infinity : (to.height / 2) / Math.abs(dy),
+  );
+  const endX = Number.isFinite(scale) ? to.x - dx * Math.min(scale, 1) : to.x;
+  const endY = Number.isFinite(scale) ? to.y - dy * Math.min(scale, 1) : to.y;
+  const label = edge.label || edgeLabels[edge.kind];
+
+  return (
+    <g>
+      <line x1={from.x} y1={from.y} x2={endX} y2={endY} stroke="#6b7280" strokeWidth={1} markerEnd="url(#flow-arrow)" />
+      {label && (
+        <text x={(from.x + endX) / 2} y={(from.y + endY) / 2 - 3} textAnchor="middle" fontSize={8} fill="#4b5563">
+          {truncate(label, 24)}
+        </text>
+      )}
+    </g>
+  );
+}
+
+function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
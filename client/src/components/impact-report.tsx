@@ -0,0 +1,194 @@
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, ShieldAlert } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { downloadCsv } from "@/lib/export";
+import type { ImpactReport as ImpactReportData, ImpactSeverity, SignatureChange } from "@shared/schema";
+
+interface ImpactReportProps {
+  report: ImpactReportData;
+}
+
+const severityStyles: Record<ImpactSeverity, string> = {
+  error: "bg-red-100 text-red-800 border-red-200",
+  warning: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  info: "bg-blue-100 text-blue-800 border-blue-200",
+};
+
+const severityLabels: Record<ImpactSeverity, string> = {
+  error: "Breaks",
+  warning: "Review",
+  info: "Info",
+};
+
+function describeChange(change: SignatureChange): string {
+  const parameter = change.parameterName ? ` "${change.parameterName}"` : "";
+  switch (change.kind) {
+    case "action-renamed":
+      return `Renamed to "${change.newActionName}"`;
+    case "input-renamed":
+    case "output-renamed":
+      return `${change.kind === "input-renamed" ? "Input" : "Output"}${parameter} renamed to "${change.newParameterName}"`;
+    case "input-type-changed":
+    case "output-type-changed":
+      return `${change.kind === "input-type-changed" ? "Input" : "Output"}${parameter} changed from ${change.oldType} to ${change.newType}`;
+    default: {
+      const [subject, verb] = change.kind.split("-");
+      return `${subject.charAt(0).toUpperCase()}${subject.slice(1)}${subject === "action" ? "" : parameter} ${verb}`;
+    }
+  }
+}
+
+export function ImpactReport({ report }: ImpactReportProps) {
+  const { toast } = useToast();
+
+  const handleExport = () => {
+    const csvRows = [["Severity", "Process", "Page", "Stage", "Action", "Reasons"]];
+    report.callers.forEach(caller => {
+      csvRows.push([
+        caller.severity,
+        caller.processName,
+        caller.page,
+        caller.stageName,
+        caller.actionName,
+        caller.reasons.map(reason => reason.message).join("; "),
+      ]);
+    });
+
+    downloadCsv(csvRows, `${report.objectName}_impact.csv`);
+
+    toast({
+      title: "Export completed",
+      description: "Impact report exported to CSV file",
+    });
+  };
+
+  return (
+    <>
+      {/* Signature Changes */}
+      <Card className="card-shadow mb-6">
+        <CardHeader className="border-b border-gray-200">
+          <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+            <ShieldAlert className="mr-2 h-5 w-5" />
+            {report.objectName}
+          </CardTitle>
+          <p className="text-sm text-gray-500 mt-1">
+            {report.baseline.fileName} ({report.baseline.version || "no version"}
+            {report.baseline.source === "history" && report.baseline.analyzedAt
+              ? `, saved ${new Date(report.baseline.analyzedAt).toLocaleString()}`
+              : ""}) → {report.fileName} ({report.version || "no version"})
+          </p>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="bg-red-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-red-600">{report.summary.error}</div>
+              <div className="text-sm text-gray-600">Callers that break</div>
+            </div>
+            <div className="bg-yellow-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-yellow-700">{report.summary.warning}</div>
+              <div className="text-sm text-gray-600">Callers to review</div>
+            </div>
+            <div className="bg-blue-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-bp-blue">{report.summary.info}</div>
+              <div className="text-sm text-gray-600">Informational</div>
+            </div>
+            <div className="bg-green-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-bp-green">{report.summary.unaffected}</div>
+              <div className="text-sm text-gray-600">Unaffected</div>
+            </div>
+          </div>
+
+          <h5 className="font-medium text-sm text-gray-700 mb-2">
+            Action signature changes ({report.changes.length})
+          </h5>
+          {report.changes.length > 0 ? (
+            <div className="space-y-1">
+              {report.changes.map((change, index) => (
+                <div key={`${change.kind}-${change.actionName}-${change.parameterName}-${index}`} className="flex items-center bg-gray-50 rounded-lg p-2 text-sm">
+                  <span className="font-medium text-gray-900">{change.actionName}</span>
+                  <span className="ml-2 text-gray-600">{describeChange(change)}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">The published actions keep the same inputs and outputs</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Affected Callers */}
+      <Card className="card-shadow">
+        <CardHeader className="border-b border-gray-200">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-4 sm:space-y-0">
+            <CardTitle className="text-xl font-semibold text-bp-dark">
+              Affected callers ({report.callers.length})
+            </CardTitle>
+            <Button onClick={handleExport} disabled={report.callers.length === 0} className="bg-bp-green text-white hover:bg-green-700">
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+        </CardHeader>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader className="bg-gray-50">
+              <TableRow>
+                <TableHead>Severity</TableHead>
+                <TableHead>Process</TableHead>
+                <TableHead>Stage</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Why</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.callers.map((caller, index) => (
+                <TableRow key={`${caller.analysisId}-${caller.processName}-${caller.stageId}-${index}`} className="table-row hover:bg-gray-50 align-top">
+                  <TableCell>
+                    <Badge variant="outline" className={`text-xs ${severityStyles[caller.severity]}`}>
+                      {severityLabels[caller.severity]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Link href={`/history/${caller.analysisId}`} className="text-sm font-medium text-gray-900 hover:text-bp-blue">
+                      {caller.processName}
+                    </Link>
+                    <div className="text-xs text-gray-500">{caller.page}</div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-700">{caller.stageName}</TableCell>
+                  <TableCell className="text-sm text-gray-700">{caller.actionName}</TableCell>
+                  <TableCell>
+                    <ul className="space-y-1">
+                      {caller.reasons.map((reason, reasonIndex) => (
+                        <li key={reasonIndex} className={`text-xs ${reason.severity === "error" ? "text-red-700" : "text-gray-600"}`}>
+                          {reason.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {report.callers.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No saved process calls an action this version changes</p>
+          </div>
+        )}
+      </Card>
+    </>
+  );
+}
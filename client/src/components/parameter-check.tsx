@@ -0,0 +1,85 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CheckCircle2, ListChecks } from "lucide-react";
+import type { ParameterIssue } from "@shared/schema";
+
+interface ParameterCheckProps {
+  issues: ParameterIssue[];
+}
+
+const issueLabels: Record<ParameterIssue["kind"], string> = {
+  "missing-input": "Missing input",
+  "unknown-input": "Unknown input",
+  "unknown-output": "Unknown output",
+  "type-mismatch": "Type mismatch",
+};
+
+export function ParameterCheck({ issues }: ParameterCheckProps) {
+  const describeIssue = (issue: ParameterIssue) => {
+    if (issue.kind === "type-mismatch") {
+      return `expects ${issue.expectedType}, stage uses ${issue.actualType}`;
+    }
+    if (issue.kind === "missing-input") {
+      return `${issue.expectedType} input not mapped by the stage`;
+    }
+    return "not defined by the action";
+  };
+
+  return (
+    <Card className="card-shadow mb-6">
+      <CardHeader className="border-b border-gray-200">
+        <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+          <ListChecks className="mr-2 h-5 w-5" />
+          Parameter check
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {issues.length === 0 ? (
+          <div className="flex items-center justify-center text-sm text-gray-600 py-4">
+            <CheckCircle2 className="mr-2 h-4 w-4 text-bp-green" />
+            Every resolved Action stage matches its action's inputs and outputs
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader className="bg-gray-50">
+                <TableRow>
+                  <TableHead>Stage</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Parameter</TableHead>
+                  <TableHead>Issue</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {issues.map((issue, index) => (
+                  <TableRow key={`${issue.stageId}-${issue.parameterName}-${index}`} className="table-row hover:bg-gray-50">
+                    <TableCell>
+                      <div className="text-sm font-medium text-gray-900">{issue.stageName}</div>
+                      <div className="text-xs text-gray-500">{issue.processName} • {issue.page}</div>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-700">
+                      {issue.objectName} / {issue.actionName}
+                    </TableCell>
+                    <TableCell className="text-sm font-medium text-gray-900">{issue.parameterName}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="text-xs mb-1">{issueLabels[issue.kind]}</Badge>
+                      <div className="text-xs text-gray-500">{describeIssue(issue)}</div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Archive, ChevronRight } from "lucide-react";
+import { AnalysisResults } from "@/components/analysis-results";
+import { VBOAnalysisResults } from "@/components/vbo-analysis-results";
+import { DependencyCheck } from "@/components/dependency-check";
+import { ParameterCheck } from "@/components/parameter-check";
+import type { ReleaseAnalysis, ReleaseItem } from "@shared/schema";
+
+interface ReleaseAnalysisResultsProps {
+  analysis: ReleaseAnalysis;
+}
+
+export function ReleaseAnalysisResults({ analysis }: ReleaseAnalysisResultsProps) {
+  const [selectedItem, setSelectedItem] = useState<ReleaseItem | null>(null);
+
+  // Items are listed processes first, then objects, in the same order as the
+  // analyses, so the n-th item of a kind maps to the n-th analysis of that kind.
+  const processItems = analysis.items.filter(item => item.kind === "process");
+  const objectItems = analysis.items.filter(item => item.kind === "object");
+
+  const getItemSummary = (item: ReleaseItem) => {
+    if (item.kind === "process") {
+      const process = analysis.processes[processItems.indexOf(item)];
+      return process ? `${process.vboCount} VBOs • ${process.actionCount} actions` : "";
+    }
+    const object = analysis.objects[objectItems.indexOf(item)];
+    return object ? `${object.actionCount} actions • ${object.elementCount} elements` : "";
+  };
+
+  if (selectedItem) {
+    const process = selectedItem.kind === "process"
+      ? analysis.processes[processItems.indexOf(selectedItem)]
+      : undefined;
+    const object = selectedItem.kind === "object"
+      ? analysis.objects[objectItems.indexOf(selectedItem)]
+      : undefined;
+
+    return (
+      <>
+        <Button
+          variant="ghost"
+          onClick={() => setSelectedItem(null)}
+          className="mb-4 text-bp-blue"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to {analysis.releaseName}
+        </Button>
+        {process && <AnalysisResults analysis={process} />}
+        {object && <VBOAnalysisResults analysis={object} />}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {/* Release Summary */}
+      <Card className="card-shadow mb-6">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+            <Archive className="mr-2 h-5 w-5" />
+            {analysis.releaseName}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2 text-sm text-gray-700">
+              <div><span className="font-medium">Package:</span> {analysis.packageName || "—"}</div>
+              <div><span className="font-medium">Created by:</span> {analysis.createdBy || "—"}</div>
+              <div><span className="font-medium">Created:</span> {analysis.created || "—"}</div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="bg-green-50 rounded-lg p-4 text-center">
+                <div className="text-2xl font-bold text-bp-green">{analysis.processes.length}</div>
+                <div className="text-sm text-gray-600">Processes</div>
+              </div>
+              <div className="bg-blue-50 rounded-lg p-4 text-center">
+                <div className="text-2xl font-bold text-bp-blue">{analysis.objects.length}</div>
+                <div className="text-sm text-gray-600">Objects</div>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Dependency Check */}
+      <DependencyCheck resolution={analysis.dependencyResolution} />
+
+      {/* Parameter Check */}
+      <ParameterCheck issues={analysis.parameterIssues} />
+
+      {/* Release Contents */}
+      <Card className="card-shadow">
+        <CardHeader className="border-b border-gray-200">
+          <CardTitle className="text-xl font-semibold text-bp-dark">
+            Release contents
+          </CardTitle>
+        </CardHeader>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader className="bg-gray-50">
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Summary</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {analysis.items.map((item) => (
+                <TableRow
+                  key={`${item.kind}-${item.id}`}
+                  className="table-row hover:bg-gray-50 cursor-pointer"
+                  onClick={() => setSelectedItem(item)}
+                >
+                  <TableCell>
+                    <div className="text-sm font-medium text-gray-900">{item.name}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="text-xs">
+                      {item.kind === "process" ? "Process" : "Object"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm text-gray-600">{getItemSummary(item)}</div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <ChevronRight className="h-4 w-4 text-gray-400 inline" />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {analysis.items.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">This release contains no processes or objects</p>
+          </div>
+        )}
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, PackageOpen } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { downloadCsv } from "@/lib/export";
+import { DiffResults, FieldChanges, changeStyles } from "@/components/diff-results";
+import type { ReleaseDiff, ReleaseItemDiff } from "@shared/schema";
+
+interface ReleaseDiffResultsProps {
+  diff: ReleaseDiff;
+}
+
+const itemChangeStyles: Record<ReleaseItemDiff["change"], string> = {
+  ...changeStyles,
+  unchanged: "bg-gray-100 text-gray-600 border-gray-200",
+};
+
+function versionChange(before?: string, after?: string): string {
+  if (before && after && before !== after) return `${before} → ${after}`;
+  return after || before || "";
+}
+
+export function ReleaseDiffResults({ diff }: ReleaseDiffResultsProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const selected = diff.items.find(item => item.diff && `${item.kind}-${item.id}` === selectedId);
+
+  const handleExport = () => {
+    const csvRows = [["Kind", "Name", "Change", "Version", "Blue Prism Version", "Stages Added", "Stages Removed", "Stages Modified", "Dependency Changes", "Element Changes"]];
+    diff.items.forEach(item => {
+      csvRows.push([
+        item.kind,
+        item.name,
+        item.change,
+        versionChange(item.oldVersion, item.newVersion),
+        versionChange(item.oldBpVersion, item.newBpVersion),
+        String(item.diff?.summary.added ?? ""),
+        String(item.diff?.summary.removed ?? ""),
+        String(item.diff?.summary.modified ?? ""),
+        String(item.diff?.dependencies.length ?? ""),
+        String(item.diff?.elements.length ?? ""),
+      ]);
+    });
+
+    downloadCsv(csvRows, `${diff.newReleaseName}_changes.csv`);
+
+    toast({
+      title: "Export completed",
+      description: "Release changes exported to CSV file",
+    });
+  };
+
+  return (
+    <>
+      {/* Release Changes */}
+      <Card className="card-shadow mb-6">
+        <CardHeader className="border-b border-gray-200">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-4 sm:space-y-0">
+            <div>
+              <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+                <PackageOpen className="mr-2 h-5 w-5" />
+                {diff.oldReleaseName} → {diff.newReleaseName}
+              </CardTitle>
+              <p className="text-sm text-gray-500 mt-1">
+                {diff.oldCreated || "unknown date"} → {diff.newCreated || "unknown date"}
+              </p>
+            </div>
+            <Button onClick={handleExport} className="bg-bp-green text-white hover:bg-green-700">
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="bg-green-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-bp-green">{diff.summary.added}</div>
+              <div className="text-sm text-gray-600">Added</div>
+            </div>
+            <div className="bg-red-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-red-600">{diff.summary.removed}</div>
+              <div className="text-sm text-gray-600">Removed</div>
+            </div>
+            <div className="bg-yellow-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-yellow-700">{diff.summary.modified}</div>
+              <div className="text-sm text-gray-600">Changed</div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-gray-600">{diff.summary.unchanged}</div>
+              <div className="text-sm text-gray-600">Unchanged</div>
+            </div>
+          </div>
+
+          {diff.properties.length > 0 && (
+            <div className="mb-6">
+              <h5 className="font-medium text-sm text-gray-700 mb-2">Release properties</h5>
+              <FieldChanges changes={diff.properties} />
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader className="bg-gray-50">
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Blue Prism Version</TableHead>
+                  <TableHead>Stages</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.items.map(item => {
+                  const key = `${item.kind}-${item.id}`;
+                  return (
+                    <TableRow key={key} className={`table-row hover:bg-gray-50 ${key === selectedId ? "bg-blue-50" : ""}`}>
+                      <TableCell>
+                        <div className="text-sm font-medium text-gray-900">{item.name}</div>
+                        <div className="text-xs text-gray-500">{item.kind}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={`text-xs ${itemChangeStyles[item.change]}`}>{item.change}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-700">{versionChange(item.oldVersion, item.newVersion)}</TableCell>
+                      <TableCell className="text-sm text-gray-700">{versionChange(item.oldBpVersion, item.newBpVersion)}</TableCell>
+                      <TableCell className="text-sm text-gray-700">
+                        {item.diff && `+${item.diff.summary.added} -${item.diff.summary.removed} ~${item.diff.summary.modified}`}
+                      </TableCell>
+                      <TableCell>
+                        {item.diff && (
+                          <Button variant="outline" size="sm" onClick={() => setSelectedId(key === selectedId ? null : key)}>
+                            {key === selectedId ? "Hide changes" : "View changes"}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Selected Item Diff */}
+      {selected?.diff && <DiffResults diff={selected.diff} />}
+    </>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CheckCircle2, ListChecks } from "lucide-react";
+import type { RuleFinding, RuleSeverity } from "@shared/schema";
+
+interface RuleFindingsProps {
+  findings: RuleFinding[];
+}
+
+const severityStyles: Record<RuleSeverity, string> = {
+  error: "bg-red-100 text-red-800 border-red-200",
+  warning: "bg-orange-100 text-orange-800 border-orange-200",
+  info: "bg-blue-100 text-blue-800 border-blue-200",
+};
+
+const severityOrder: RuleSeverity[] = ["error", "warning", "info"];
+
+export function RuleFindings({ findings }: RuleFindingsProps) {
+  const [severityFilter, setSeverityFilter] = useState<string>("all");
+
+  const filteredFindings = findings
+    .filter(finding => severityFilter === "all" || finding.severity === severityFilter)
+    .sort((a, b) => severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity));
+
+  return (
+    <Card className="card-shadow mb-6">
+      <CardHeader className="border-b border-gray-200">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-4 sm:space-y-0">
+          <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+            <ListChecks className="mr-2 h-5 w-5" />
+            Design standards ({findings.length})
+          </CardTitle>
+          <Select value={severityFilter} onValueChange={setSeverityFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All severities</SelectItem>
+              {severityOrder.map(severity => (
+                <SelectItem key={severity} value={severity}>
+                  {severity} ({findings.filter(finding => finding.severity === severity).length})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {findings.length === 0 ? (
+          <div className="flex items-center justify-center text-sm text-gray-600 py-4">
+            <CheckCircle2 className="mr-2 h-4 w-4 text-bp-green" />
+            No design standard violations found
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader className="bg-gray-50">
+                <TableRow>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Finding</TableHead>
+                  <TableHead>Location</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredFindings.map((finding, index) => (
+                  <TableRow key={`${finding.ruleId}-${finding.stageId || finding.page}-${index}`} className="table-row hover:bg-gray-50">
+                    <TableCell>
+                      <Badge variant="outline" className={`text-xs ${severityStyles[finding.severity]}`}>
+                        {finding.severity}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm font-medium text-gray-900">{finding.ruleId}</div>
+                      <div className="text-xs text-gray-500 mt-1">{finding.description}</div>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-700">{finding.message}</TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {finding.stageName && <div className="font-medium text-gray-700">{finding.stageName}</div>}
+                      {finding.page}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
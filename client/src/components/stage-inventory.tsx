@@ -0,0 +1,61 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Boxes } from "lucide-react";
+import type { StageTypeCount, SubsheetInventory } from "@shared/schema";
+
+interface StageInventoryProps {
+  stageInventory: StageTypeCount[];
+  subsheetInventory: SubsheetInventory[];
+}
+
+export function StageInventory({ stageInventory, subsheetInventory }: StageInventoryProps) {
+  return (
+    <Card className="card-shadow mb-6">
+      <CardHeader className="border-b border-gray-200">
+        <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+          <Boxes className="mr-2 h-5 w-5" />
+          Stage inventory
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {/* Overall counts */}
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3 mb-6">
+          {stageInventory.map((entry) => (
+            <div key={entry.type} className="bg-gray-50 rounded-lg p-3 text-center">
+              <div className="text-xl font-bold text-bp-blue">{entry.count}</div>
+              <div className="text-xs text-gray-600">{entry.type}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Per-subsheet breakdown */}
+        <Accordion type="multiple">
+          {subsheetInventory.map((page) => (
+            <AccordionItem key={page.subsheetId || page.name} value={page.subsheetId || page.name}>
+              <AccordionTrigger className="text-sm text-gray-900">
+                <span className="flex items-center">
+                  {page.name}
+                  <Badge variant="secondary" className="ml-2 text-xs">{page.totalStages} stages</Badge>
+                </span>
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="space-y-2">
+                  {page.stageTypes.map((entry) => (
+                    <div key={entry.type} className="bg-gray-50 rounded-lg p-2">
+                      <div className="flex items-center text-sm font-medium text-gray-900">
+                        {entry.type}
+                        <Badge variant="outline" className="ml-2 text-xs">{entry.count}</Badge>
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">{entry.stageNames.join(", ")}</div>
+                    </div>
+                  ))}
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,16 +1,18 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import { useDropzone } from "react-dropzone";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { FolderOpen, FileCode, X, Cog } from "lucide-react";
 import robotImagePath from "@assets/image_1754244472536.png";
-import type { ProcessAnalysis, VBOAnalysis } from "@shared/schema";
+import type { ProcessAnalysis, VBOAnalysis, ReleaseAnalysis, WorkspaceAnalysis } from "@shared/schema";
 
 interface UnifiedUploadProps {
   onProcessAnalysisComplete: (analysis: ProcessAnalysis) => void;
   onVBOAnalysisComplete: (analysis: VBOAnalysis) => void;
+  onReleaseAnalysisComplete: (analysis: ReleaseAnalysis) => void;
+  onWorkspaceAnalysisComplete: (analysis: WorkspaceAnalysis) => void;
   onUploadStart: () => void;
   onUploadError: () => void;
   isUploading: boolean;
@@ -19,37 +21,49 @@ interface UnifiedUploadProps {
 export function UnifiedUpload({ 
   onProcessAnalysisComplete, 
   onVBOAnalysisComplete, 
+  onReleaseAnalysisComplete,
+  onWorkspaceAnalysisComplete,
   onUploadStart, 
   onUploadError, 
   isUploading 
 }: UnifiedUploadProps) {
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [progress, setProgress] = useState(0);
-  const [analysisType, setAnalysisType] = useState<'process' | 'vbo' | null>(null);
+  const [analysisType, setAnalysisType] = useState<'process' | 'vbo' | 'release' | 'workspace' | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
-  const determineFileType = (fileName: string): 'process' | 'vbo' | null => {
+  const determineFileType = (fileName: string): 'process' | 'vbo' | 'release' | 'zip' | null => {
     if (fileName.endsWith('.bpprocess')) return 'process';
     if (fileName.endsWith('.bpobject')) return 'vbo';
+    if (fileName.endsWith('.bprelease')) return 'release';
+    if (fileName.toLowerCase().endsWith('.zip')) return 'zip';
     return null;
   };
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (!file) return;
+    // Folders can contain anything; only Blue Prism exports are uploaded
+    const files = acceptedFiles.filter(file => determineFileType(file.name));
 
-    const fileType = determineFileType(file.name);
-    
-    if (!fileType) {
+    if (files.length === 0) {
       toast({
         title: "Invalid file type",
-        description: "Please upload a .bpprocess or .bpobject file",
+        description: "Please upload a .bpprocess, .bpobject, .bprelease or .zip file",
         variant: "destructive",
       });
       return;
     }
 
-    setUploadedFile(file);
+    // Archives are expanded on the server and analyzed as a workspace
+    if (files.length > 1 || determineFileType(files[0].name) === 'zip') {
+      await uploadBatch(files);
+      return;
+    }
+
+    const file = files[0];
+    const fileType = determineFileType(file.name) as 'process' | 'vbo' | 'release';
+
+    setUploadedFiles([file]);
     setAnalysisType(fileType);
     onUploadStart();
 
@@ -69,9 +83,13 @@ export function UnifiedUpload({
       formData.append('file', file);
 
       // Choose the appropriate API endpoint based on file type
-      const endpoint = fileType === 'process' ? '/api/analyze' : '/api/analyze-vbo';
+      const endpoint = fileType === 'process'
+        ? '/api/analyze'
+        : fileType === 'vbo' ? '/api/analyze-vbo' : '/api/analyze-release';
       const response = await apiRequest('POST', endpoint, formData);
       const analysis = await response.json();
+      // The analysis was saved, so the history list is out of date
+      queryClient.invalidateQueries({ queryKey: ["/api/analyses"] });
 
       clearInterval(progressInterval);
       setProgress(100);
@@ -83,6 +101,12 @@ export function UnifiedUpload({
             title: "Process file analyzed successfully!",
             description: `Found ${analysis.vboCount} VBOs and ${analysis.actionCount} actions`,
           });
+        } else if (fileType === 'release') {
+          onReleaseAnalysisComplete(analysis);
+          toast({
+            title: "Release analyzed successfully!",
+            description: `Found ${analysis.processes.length} processes and ${analysis.objects.length} objects`,
+          });
         } else {
           onVBOAnalysisComplete(analysis);
           toast({
@@ -102,20 +126,64 @@ export function UnifiedUpload({
       });
       setProgress(0);
     }
-  }, [onUploadStart, onProcessAnalysisComplete, onVBOAnalysisComplete, onUploadError, toast]);
+  }, [onUploadStart, onProcessAnalysisComplete, onVBOAnalysisComplete, onReleaseAnalysisComplete, onWorkspaceAnalysisComplete, onUploadError, toast]);
+
+  // Several files are analyzed together as one workspace
+  const uploadBatch = async (files: File[]) => {
+    setUploadedFiles(files);
+    setAnalysisType('workspace');
+    onUploadStart();
+
+    try {
+      setProgress(30);
+
+      const formData = new FormData();
+      files.forEach(file => formData.append('files', file));
+
+      const response = await apiRequest('POST', '/api/analyze-batch', formData);
+      const workspace: WorkspaceAnalysis = await response.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/analyses"] });
+
+      setProgress(100);
+
+      setTimeout(() => {
+        onWorkspaceAnalysisComplete(workspace);
+        const failed = workspace.files.filter(file => file.status === "failed").length;
+        toast({
+          title: "Workspace analyzed successfully!",
+          description: `Analyzed ${workspace.files.length - failed} of ${workspace.files.length} files: ${workspace.processes.length} processes and ${workspace.objects.length} objects`,
+        });
+      }, 500);
+
+    } catch (error) {
+      console.error('Upload error:', error);
+      onUploadError();
+      toast({
+        title: "Error processing files",
+        description: error instanceof Error ? error.message : "Failed to analyze the files",
+        variant: "destructive",
+      });
+      setProgress(0);
+    }
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'application/xml': ['.bpprocess', '.bpobject'],
-      'text/xml': ['.bpprocess', '.bpobject'],
+      'application/xml': ['.bpprocess', '.bpobject', '.bprelease'],
+      'text/xml': ['.bpprocess', '.bpobject', '.bprelease'],
+      'application/zip': ['.zip'],
     },
-    maxFiles: 1,
-    multiple: false,
+    multiple: true,
   });
 
+  const handleFolderSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    onDrop(Array.from(event.target.files || []));
+    event.target.value = "";
+  };
+
   const removeFile = () => {
-    setUploadedFile(null);
+    setUploadedFiles([]);
     setProgress(0);
     setAnalysisType(null);
   };
@@ -123,6 +191,8 @@ export function UnifiedUpload({
   const getAnalysisTypeDisplay = () => {
     if (analysisType === 'process') return 'Process Analysis';
     if (analysisType === 'vbo') return 'VBO Analysis';
+    if (analysisType === 'release') return 'Release Analysis';
+    if (analysisType === 'workspace') return 'Workspace Analysis';
     return 'Blue Prism File';
   };
 
@@ -133,6 +203,10 @@ export function UnifiedUpload({
         <p className="text-gray-600 mb-6">
           {analysisType === 'process' 
             ? 'Analyzing process structure and extracting dependencies'
+            : analysisType === 'release'
+            ? 'Unpacking the release and analyzing every process and object'
+            : analysisType === 'workspace'
+            ? `Analyzing ${uploadedFiles.length} files as one workspace`
             : 'Analyzing VBO structure and extracting actions and elements'
           }
         </p>
@@ -144,6 +218,10 @@ export function UnifiedUpload({
         <p className="text-sm text-gray-500 mb-4">
           {analysisType === 'process' 
             ? 'Extracting VBO dependencies and process flow'
+            : analysisType === 'release'
+            ? 'Extracting release contents'
+            : analysisType === 'workspace'
+            ? 'Aggregating VBO usage across all processes'
             : 'Extracting actions and application elements'
           }
         </p>
@@ -155,21 +233,24 @@ export function UnifiedUpload({
     );
   }
 
-  if (uploadedFile) {
+  if (uploadedFiles.length > 0) {
     return (
       <div className="text-center">
         <h2 className="text-xl font-semibold text-bp-dark mb-2">Upload Blue Prism File</h2>
         <p className="text-sm text-gray-600 mb-2">Extract dependencies from the <span className="font-bold">.bpprocess</span> files</p>
-        <p className="text-sm text-gray-600 mb-6">Extract Application Modeller structure from the <span className="font-bold">.bpobject</span> files</p>
+        <p className="text-sm text-gray-600 mb-2">Extract Application Modeller structure from the <span className="font-bold">.bpobject</span> files</p>
+        <p className="text-sm text-gray-600 mb-6">Analyze every process and object packaged in <span className="font-bold">.bprelease</span> files</p>
         
         <div className="bg-gray-50 rounded-lg p-4 max-w-md mx-auto">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
               <FileCode className="text-bp-blue h-6 w-6" />
               <div className="text-left">
-                <p className="font-medium text-gray-900">{uploadedFile.name}</p>
+                <p className="font-medium text-gray-900">
+                  {uploadedFiles.length === 1 ? uploadedFiles[0].name : `${uploadedFiles.length} files`}
+                </p>
                 <p className="text-sm text-gray-500">
-                  {(uploadedFile.size / 1024 / 1024).toFixed(1)} MB • {getAnalysisTypeDisplay()}
+                  {(uploadedFiles.reduce((sum, file) => sum + file.size, 0) / 1024 / 1024).toFixed(1)} MB • {getAnalysisTypeDisplay()}
                 </p>
               </div>
             </div>
@@ -191,7 +272,8 @@ export function UnifiedUpload({
     <div className="text-center">
       <h2 className="text-xl font-semibold text-bp-dark mb-2">Upload Blue Prism File</h2>
       <p className="text-sm text-gray-600 mb-2">Extract dependencies from the <span className="font-bold">.bpprocess</span> files</p>
-      <p className="text-sm text-gray-600 mb-6">Extract Application Modeller structure from the <span className="font-bold">.bpobject</span> files</p>
+      <p className="text-sm text-gray-600 mb-2">Extract Application Modeller structure from the <span className="font-bold">.bpobject</span> files</p>
+      <p className="text-sm text-gray-600 mb-6">Analyze every process and object packaged in <span className="font-bold">.bprelease</span> files</p>
       
       <div
         {...getRootProps()}
@@ -204,13 +286,33 @@ export function UnifiedUpload({
         <input {...getInputProps()} />
         
         <img src={robotImagePath} alt="Upload" className="mx-auto h-32 w-32 mb-4" />
-        <p className="text-lg font-medium text-gray-700 mb-2">Drop your Blue Prism file here</p>
-        <p className="text-sm text-gray-500 mb-4">Supports .bpprocess and .bpobject files</p>
-        <Button className="bg-bp-blue text-white hover:bg-blue-700">
-          <FolderOpen className="mr-2 h-4 w-4" />
-          Browse Files
-        </Button>
+        <p className="text-lg font-medium text-gray-700 mb-2">Drop your Blue Prism files or a folder here</p>
+        <p className="text-sm text-gray-500 mb-4">Supports .bpprocess, .bpobject and .bprelease files and .zip archives of them; several files are analyzed together as a workspace</p>
+        <div className="flex justify-center space-x-3">
+          <Button className="bg-bp-blue text-white hover:bg-blue-700">
+            <FolderOpen className="mr-2 h-4 w-4" />
+            Browse Files
+          </Button>
+          <Button
+            variant="outline"
+            onClick={(event) => {
+              event.stopPropagation();
+              folderInputRef.current?.click();
+            }}
+          >
+            <FolderOpen className="mr-2 h-4 w-4" />
+            Browse Folder
+          </Button>
+        </div>
       </div>
+      <input
+        ref={folderInputRef}
+        type="file"
+        className="hidden"
+        multiple
+        onChange={handleFolderSelect}
+        {...{ webkitdirectory: "" }}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -2,7 +2,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ChevronDown, ChevronRight, Package, Layers, Settings, FolderTree } from "lucide-react";
 import { useState } from "react";
-import type { VBOAnalysis, VBOElement } from "@shared/schema";
+import { DataCatalogue } from "@/components/data-catalogue";
+import { CodeStages } from "@/components/code-stages";
+import { RuleFindings } from "@/components/rule-findings";
+import { ExpressionIssues } from "@/components/expression-issues";
+import { ConfigurationReport } from "@/components/configuration-report";
+import type { SelectorQuality, VBOAnalysis, VBOElement } from "@shared/schema";
 
 interface VBOAnalysisResultsProps {
   analysis: VBOAnalysis;
@@ -36,9 +41,16 @@ export function VBOAnalysisResults({ analysis }: VBOAnalysisResultsProps) {
     return rootElements;
   };
 
+  const selectorStyles: Record<SelectorQuality["rating"], string> = {
+    good: "bg-green-100 text-green-800 border-green-200",
+    fair: "bg-yellow-100 text-yellow-800 border-yellow-200",
+    poor: "bg-red-100 text-red-800 border-red-200",
+  };
+
   const ElementTreeNode = ({ element, level = 0 }: { element: VBOElement & { children?: VBOElement[] }, level?: number }) => {
     const [isExpanded, setIsExpanded] = useState(level < 2); // Auto-expand first 2 levels
     const hasChildren = element.children && element.children.length > 0;
+    const usedByActions = Array.from(new Set((element.usedBy || []).map(usage => usage.page)));
 
     return (
       <div className="ml-4">
@@ -66,8 +78,35 @@ export function VBOAnalysisResults({ analysis }: VBOAnalysisResultsProps) {
             <Badge variant="outline" className="ml-2 text-xs">
               {element.type}
             </Badge>
+            {element.selector && (
+              <Badge
+                variant="outline"
+                className={`ml-2 text-xs ${selectorStyles[element.selector.rating]}`}
+                title={[
+                  `In use: ${element.selector.attributesInUse.join(", ") || "none"}`,
+                  ...element.selector.reasons,
+                ].join("\n")}
+              >
+                Selector {element.selector.score}
+              </Badge>
+            )}
+            {element.usedBy && element.usedBy.length === 0 && (
+              <Badge variant="outline" className="ml-2 text-xs bg-gray-100 text-gray-600 border-gray-200">
+                Unused
+              </Badge>
+            )}
           </div>
         </div>
+        {usedByActions.length > 0 && (
+          <div
+            className="ml-12 text-xs text-gray-500"
+            title={element.usedBy!.map(usage =>
+              `${usage.page}: ${usage.stageName} (${usage.stageType}${usage.operation ? ` ${usage.operation}` : ""})`
+            ).join("\n")}
+          >
+            Used by: {usedByActions.join(", ")}
+          </div>
+        )}
         
         {hasChildren && isExpanded && (
           <div className="ml-2">
@@ -190,13 +229,66 @@ export function VBOAnalysisResults({ analysis }: VBOAnalysisResultsProps) {
           </CardTitle>
         </CardHeader>
         <CardContent>
+          {analysis.fragility.scoredElements > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 mb-4">
+              <span>
+                Object fragility: <span className="font-semibold text-bp-dark">{analysis.fragility.score}/100</span>
+              </span>
+              <Badge variant="outline" className={`text-xs ${selectorStyles.poor}`}>
+                {analysis.fragility.poorElements} poor
+              </Badge>
+              <Badge variant="outline" className={`text-xs ${selectorStyles.fair}`}>
+                {analysis.fragility.fairElements} fair
+              </Badge>
+              <span className="text-xs text-gray-500">
+                of {analysis.fragility.scoredElements} elements with match criteria
+              </span>
+            </div>
+          )}
           <div className="bg-gray-50 rounded-lg p-4 max-h-96 overflow-y-auto">
             {elementTree.map((element) => (
               <ElementTreeNode key={element.id} element={element} />
             ))}
           </div>
+
+          {/* Unused elements */}
+          {analysis.unusedElements.length > 0 && (
+            <div className="mt-6">
+              <h5 className="font-medium text-sm text-gray-700 mb-2">
+                Unused elements ({analysis.unusedElements.length})
+              </h5>
+              <p className="text-xs text-gray-500 mb-2">
+                No Read, Write, Navigate or Wait stage in this object refers to these elements.
+              </p>
+              <div className="space-y-1">
+                {analysis.unusedElements.map(element => (
+                  <div key={element.id} className="flex items-center bg-gray-50 rounded-lg p-2">
+                    <Package className="h-4 w-4 mr-2 text-gray-400" />
+                    <span className="text-sm font-medium text-gray-900">{element.name}</span>
+                    <Badge variant="outline" className="ml-2 text-xs">{element.type}</Badge>
+                    <span className="ml-2 text-xs text-gray-500 truncate">{element.path}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
+
+      {/* Code Stages */}
+      <CodeStages code={analysis.code} />
+
+      {/* Design Standards */}
+      <RuleFindings findings={analysis.ruleFindings} />
+
+      {/* Data Items */}
+      <DataCatalogue dataItems={analysis.dataItems} />
+
+      {/* Expression Problems */}
+      <ExpressionIssues issues={analysis.expressionIssues} />
+
+      {/* Environment Variables and Credentials */}
+      <ConfigurationReport configuration={analysis.configuration} fileName={analysis.fileName} />
     </>
   );
 }
\ No newline at end of file
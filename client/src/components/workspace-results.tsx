@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, ChevronRight, FolderOpen, Package } from "lucide-react";
+import { AnalysisResults } from "@/components/analysis-results";
+import { VBOAnalysisResults } from "@/components/vbo-analysis-results";
+import { DependencyCheck } from "@/components/dependency-check";
+import { ParameterCheck } from "@/components/parameter-check";
+import type { WorkspaceAnalysis, WorkspaceItem } from "@shared/schema";
+
+interface WorkspaceResultsProps {
+  analysis: WorkspaceAnalysis;
+}
+
+const kindLabels = {
+  process: "Process",
+  object: "Object",
+  release: "Release",
+  archive: "Archive",
+};
+
+export function WorkspaceResults({ analysis }: WorkspaceResultsProps) {
+  const [selectedItem, setSelectedItem] = useState<WorkspaceItem | null>(null);
+
+  // Items are listed processes first, then objects, in the same order as the
+  // analyses, so the n-th item of a kind maps to the n-th analysis of that kind.
+  const processItems = analysis.items.filter(item => item.kind === "process");
+  const objectItems = analysis.items.filter(item => item.kind === "object");
+  const failedCount = analysis.files.filter(file => file.status === "failed").length;
+
+  if (selectedItem) {
+    const process = selectedItem.kind === "process"
+      ? analysis.processes[processItems.indexOf(selectedItem)]
+      : undefined;
+    const object = selectedItem.kind === "object"
+      ? analysis.objects[objectItems.indexOf(selectedItem)]
+      : undefined;
+
+    return (
+      <>
+        <Button
+          variant="ghost"
+          onClick={() => setSelectedItem(null)}
+          className="mb-4 text-bp-blue"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to workspace
+        </Button>
+        {process && <AnalysisResults analysis={process} />}
+        {object && <VBOAnalysisResults analysis={object} />}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {/* Workspace Summary */}
+      <Card className="card-shadow mb-6">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+            <FolderOpen className="mr-2 h-5 w-5" />
+            Workspace
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-gray-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-bp-dark">{analysis.files.length}</div>
+              <div className="text-sm text-gray-600">Files</div>
+            </div>
+            <div className={`${failedCount > 0 ? "bg-red-50" : "bg-green-50"} rounded-lg p-4 text-center`}>
+              <div className={`text-2xl font-bold ${failedCount > 0 ? "text-red-600" : "text-bp-green"}`}>{failedCount}</div>
+              <div className="text-sm text-gray-600">Failed</div>
+            </div>
+            <div className="bg-green-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-bp-green">{analysis.processes.length}</div>
+              <div className="text-sm text-gray-600">Processes</div>
+            </div>
+            <div className="bg-blue-50 rounded-lg p-4 text-center">
+              <div className="text-2xl font-bold text-bp-blue">{analysis.objects.length}</div>
+              <div className="text-sm text-gray-600">Objects</div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Files */}
+      <Card className="card-shadow mb-6">
+        <CardHeader className="border-b border-gray-200">
+          <CardTitle className="text-xl font-semibold text-bp-dark">
+            Files ({analysis.files.length})
+          </CardTitle>
+        </CardHeader>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader className="bg-gray-50">
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {analysis.files.map((file, index) => (
+                <TableRow key={`${file.fileName}-${index}`} className="table-row hover:bg-gray-50">
+                  <TableCell>
+                    <div className="text-sm font-medium text-gray-900">{file.fileName}</div>
+                    <div className="text-xs text-gray-500">{(file.fileSize / 1024).toFixed(1)} KB</div>
+                  </TableCell>
+                  <TableCell>
+                    {file.kind && <Badge variant="outline" className="text-xs">{kindLabels[file.kind]}</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    {file.status === "analyzed" ? (
+                      <Badge variant="outline" className="text-xs bg-green-100 text-green-800 border-green-200">
+                        {file.kind === "release"
+                          ? `Analyzed • ${file.itemCount} items`
+                          : file.kind === "archive" ? `Expanded • ${file.itemCount} entries` : "Analyzed"}
+                      </Badge>
+                    ) : (
+                      <div>
+                        <Badge variant="outline" className="text-xs bg-red-100 text-red-800 border-red-200">Failed</Badge>
+                        <div className="text-xs text-red-700 mt-1 whitespace-pre-line">{file.error}</div>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {analysis.skippedEntries.length > 0 && (
+          <CardContent className="pt-6 border-t border-gray-200">
+            <h5 className="font-medium text-sm text-gray-700 mb-2">
+              Skipped archive entries ({analysis.skippedEntries.length})
+            </h5>
+            <div className="space-y-1">
+              {analysis.skippedEntries.map((entry, index) => (
+                <div key={`${entry.archive}-${entry.path}-${index}`} className="flex items-center bg-gray-50 rounded-lg p-2 text-sm">
+                  <span className="font-medium text-gray-900 truncate">{entry.archive}/{entry.path}</span>
+                  <span className="ml-2 text-xs text-gray-500">{entry.reason}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {/* VBO Usage */}
+      <Card className="card-shadow mb-6">
+        <CardHeader className="border-b border-gray-200">
+          <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+            <Package className="mr-2 h-5 w-5" />
+            VBO usage across processes ({analysis.vboUsage.length})
+          </CardTitle>
+        </CardHeader>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader className="bg-gray-50">
+              <TableRow>
+                <TableHead>Object</TableHead>
+                <TableHead>Used by</TableHead>
+                <TableHead>Calls</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {analysis.vboUsage.map(usage => (
+                <TableRow key={usage.objectName} className="table-row hover:bg-gray-50">
+                  <TableCell>
+                    <div className="text-sm font-medium text-gray-900">{usage.objectName}</div>
+                    {usage.builtIn ? (
+                      <Badge variant="secondary" className="text-xs mt-1">Built-in</Badge>
+                    ) : !usage.inWorkspace && (
+                      <Badge variant="outline" className="text-xs mt-1 bg-orange-100 text-orange-800 border-orange-200">Not in workspace</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-700" title={usage.processes.join("\n")}>
+                    {usage.processes.length} {usage.processes.length === 1 ? "process" : "processes"}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-700">{usage.usageCount}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {usage.actions.map(action => (
+                        <Badge
+                          key={action.name}
+                          variant="outline"
+                          className="text-xs"
+                          title={`${action.usageCount} calls from ${action.processes.join(", ")}`}
+                        >
+                          {action.name}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {analysis.vboUsage.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No process in this workspace calls a business object</p>
+          </div>
+        )}
+      </Card>
+
+      {/* Dependency Check */}
+      <DependencyCheck resolution={analysis.dependencyResolution} />
+
+      {/* Parameter Check */}
+      <ParameterCheck issues={analysis.parameterIssues} />
+
+      {/* Workspace Contents */}
+      <Card className="card-shadow">
+        <CardHeader className="border-b border-gray-200">
+          <CardTitle className="text-xl font-semibold text-bp-dark">
+            Processes and objects
+          </CardTitle>
+        </CardHeader>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader className="bg-gray-50">
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>File</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {analysis.items.map((item, index) => (
+                <TableRow
+                  key={`${item.kind}-${item.id}-${index}`}
+                  className="table-row hover:bg-gray-50 cursor-pointer"
+                  onClick={() => setSelectedItem(item)}
+                >
+                  <TableCell>
+                    <div className="text-sm font-medium text-gray-900">{item.name}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="text-xs">{kindLabels[item.kind]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm text-gray-600">{item.fileName}</div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <ChevronRight className="h-4 w-4 text-gray-400 inline" />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {analysis.items.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No file in this workspace could be analyzed</p>
+          </div>
+        )}
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,29 @@
+// File download helpers shared by the analysis views
+
+export function downloadCsv(rows: string[][], fileName: string) {
+  // The UTF-8 BOM tells Excel how the file is encoded. Every field is quoted
+  // with embedded quotes doubled.
+  const csvContent = "\uFEFF" + rows.map(row =>
+    row.map(field => {
+      const escapedField = field.replace(/"/g, '""');
+      return `"${escapedField}"`;
+    }).join(",")
+  ).join("\r\n"); // Use Windows line endings for better Excel compatibility
+
+  downloadBlob(new Blob([csvContent], { type: "text/csv;charset=utf-8;" }), fileName);
+}
+
+export function downloadJson(data: unknown, fileName: string) {
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }), fileName);
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
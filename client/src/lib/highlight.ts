@@ -0,0 +1,96 @@
+// Minimal line-based syntax highlighting for the languages Blue Prism code
+// stages are written in. Good enough for reading, not a full lexer: block
+// comments spanning several lines are not recognised.
+
+export interface HighlightToken {
+  text: string;
+  className?: string;
+}
+
+interface LanguageSyntax {
+  keywords: Set<string>;
+  caseInsensitive: boolean;
+  lineComment: RegExp;
+}
+
+const VB_KEYWORDS = [
+  "AddHandler", "And", "AndAlso", "As", "Boolean", "ByRef", "ByVal", "Case", "Catch", "Class", "Const",
+  "Date", "Decimal", "Dim", "Do", "Double", "Each", "Else", "ElseIf", "End", "Exit", "False", "Finally",
+  "For", "Function", "Get", "If", "Imports", "In", "Integer", "Is", "IsNot", "Long", "Loop", "Me", "Module",
+  "New", "Next", "Not", "Nothing", "Object", "Of", "Or", "OrElse", "Private", "Property", "Public", "Return",
+  "Select", "Set", "Shared", "String", "Sub", "Then", "Throw", "To", "True", "Try", "TypeOf", "Using", "While", "With",
+];
+
+const CSHARP_KEYWORDS = [
+  "bool", "break", "case", "catch", "class", "const", "continue", "decimal", "default", "do", "double", "else",
+  "false", "finally", "for", "foreach", "if", "in", "int", "is", "long", "new", "null", "object", "out", "private",
+  "public", "ref", "return", "static", "string", "switch", "this", "throw", "true", "try", "using", "var", "void", "while",
+];
+
+const PYTHON_KEYWORDS = [
+  "and", "as", "def", "elif", "else", "except", "False", "finally", "for", "from", "if", "import", "in", "is",
+  "lambda", "None", "not", "or", "pass", "raise", "return", "True", "try", "while", "with", "yield",
+];
+
+const SYNTAX: Record<string, LanguageSyntax> = {
+  visualbasic: { keywords: new Set(VB_KEYWORDS.map(k => k.toLowerCase())), caseInsensitive: true, lineComment: /^('|REM\b)/i },
+  csharp: { keywords: new Set(CSHARP_KEYWORDS), caseInsensitive: false, lineComment: /^\/\// },
+  python: { keywords: new Set(PYTHON_KEYWORDS), caseInsensitive: false, lineComment: /^#/ },
+};
+
+export const tokenClasses = {
+  keyword: "text-blue-700 font-semibold",
+  string: "text-green-700",
+  comment: "text-gray-500 italic",
+  number: "text-orange-600",
+};
+
+export function highlightCode(source: string, language: string): HighlightToken[][] {
+  const syntax = SYNTAX[language] || SYNTAX.visualbasic;
+  return source.split(/\r?\n/).map(line => highlightLine(line, syntax));
+}
+
+function highlightLine(line: string, syntax: LanguageSyntax): HighlightToken[] {
+  const tokens: HighlightToken[] = [];
+  let position = 0;
+
+  while (position < line.length) {
+    const rest = line.slice(position);
+
+    if (syntax.lineComment.test(rest)) {
+      tokens.push({ text: rest, className: tokenClasses.comment });
+      break;
+    }
+
+    const string = rest.match(/^("(?:[^"\\]|\\.|"")*"?|'(?:[^'\\]|\\.)*'?)/);
+    // A single quote starts a comment in VB, so only treat it as a string elsewhere
+    if (string && !(string[0].startsWith("'") && syntax === SYNTAX.visualbasic)) {
+      tokens.push({ text: string[0], className: tokenClasses.string });
+      position += string[0].length;
+      continue;
+    }
+
+    const word = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (word) {
+      const key = syntax.caseInsensitive ? word[0].toLowerCase() : word[0];
+      tokens.push({ text: word[0], className: syntax.keywords.has(key) ? tokenClasses.keyword : undefined });
+      position += word[0].length;
+      continue;
+    }
+
+    const number = rest.match(/^\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ text: number[0], className: tokenClasses.number });
+      position += number[0].length;
+      continue;
+    }
+
+    // Merge plain characters into the previous unstyled token
+    const previous = tokens[tokens.length - 1];
+    if (previous && !previous.className) previous.text += line[position];
+    else tokens.push({ text: line[position] });
+    position++;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { AppHeader } from "@/components/app-header";
+import { DiffResults } from "@/components/diff-results";
+import { ReleaseDiffResults } from "@/components/release-diff-results";
+import { FileSlot } from "@/components/file-slot";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { GitCompare, Cog } from "lucide-react";
+import type { FileDiff, ReleaseDiff } from "@shared/schema";
+
+export default function Compare() {
+  const [oldFile, setOldFile] = useState<File | null>(null);
+  const [newFile, setNewFile] = useState<File | null>(null);
+  const [diff, setDiff] = useState<FileDiff | null>(null);
+  const [releaseDiff, setReleaseDiff] = useState<ReleaseDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const { toast } = useToast();
+
+  const handleCompare = async () => {
+    if (!oldFile || !newFile) return;
+
+    setIsComparing(true);
+    setDiff(null);
+    setReleaseDiff(null);
+    try {
+      const formData = new FormData();
+      formData.append('old', oldFile);
+      formData.append('new', newFile);
+
+      // Releases are compared item by item on their own endpoint
+      if (oldFile.name.endsWith('.bprelease')) {
+        const response = await apiRequest('POST', '/api/diff-release', formData);
+        setReleaseDiff(await response.json());
+      } else {
+        const response = await apiRequest('POST', '/api/diff', formData);
+        setDiff(await response.json());
+      }
+    } catch (error) {
+      console.error('Compare error:', error);
+      toast({
+        title: "Error comparing files",
+        description: error instanceof Error ? error.message : "Failed to compare the files",
+        variant: "destructive",
+      });
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  return (
+    <div className="bg-bp-surface min-h-screen">
+      {/* Header */}
+      <AppHeader />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* File Selection */}
+        <Card className="card-shadow mb-8">
+          <CardContent className="p-8">
+            <div className="text-center mb-6">
+              <h2 className="text-xl font-semibold text-bp-dark mb-2">Compare Versions</h2>
+              <p className="text-sm text-gray-600">
+                See which stages, links, expressions, dependencies and Application Modeller elements changed between two versions of a process or object, or what a new release changes compared with the previous one
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+              <FileSlot label="Old version" file={oldFile} onFile={setOldFile} />
+              <FileSlot label="New version" file={newFile} onFile={setNewFile} />
+            </div>
+            <div className="text-center">
+              <Button
+                className="bg-bp-blue text-white hover:bg-blue-700"
+                disabled={!oldFile || !newFile || isComparing}
+                onClick={handleCompare}
+              >
+                {isComparing ? (
+                  <Cog className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <GitCompare className="mr-2 h-4 w-4" />
+                )}
+                Compare
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Diff Results */}
+        {diff && (
+          <div className="fade-in">
+            <DiffResults diff={diff} />
+          </div>
+        )}
+
+        {/* Release Diff Results */}
+        {releaseDiff && (
+          <div className="fade-in">
+            <ReleaseDiffResults diff={releaseDiff} />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
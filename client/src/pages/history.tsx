@@ -0,0 +1,170 @@
+import { Link, useRoute } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AppHeader } from "@/components/app-header";
+import { AnalysisResults } from "@/components/analysis-results";
+import { VBOAnalysisResults } from "@/components/vbo-analysis-results";
+import { ReleaseAnalysisResults } from "@/components/release-analysis-results";
+import { Card, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowLeft, ChevronRight, Cog, History as HistoryIcon, Trash2 } from "lucide-react";
+import type { AnalysisSummary, ProcessAnalysis, ReleaseAnalysis, StoredAnalysis, VBOAnalysis } from "@shared/schema";
+
+const kindLabels = {
+  process: "Process",
+  object: "Object",
+  release: "Release",
+};
+
+function formatDate(value: Date | string): string {
+  return new Date(value).toLocaleString();
+}
+
+function AnalysisDetail({ id }: { id: string }) {
+  const { data: analysis, isLoading, error } = useQuery<StoredAnalysis>({
+    queryKey: [`/api/analyses/${id}`],
+  });
+
+  return (
+    <>
+      <Link href="/history" className="inline-flex items-center text-sm font-medium text-bp-blue mb-4">
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back to history
+      </Link>
+
+      {isLoading && (
+        <div className="flex justify-center py-12">
+          <Cog className="h-6 w-6 text-bp-blue animate-spin" />
+        </div>
+      )}
+      {error && (
+        <p className="text-center text-red-600 py-12">
+          {error instanceof Error ? error.message : "Failed to load the analysis"}
+        </p>
+      )}
+
+      {analysis && (
+        <div className="fade-in">
+          <p className="text-sm text-gray-500 mb-4">Analyzed {formatDate(analysis.createdAt)}</p>
+          {analysis.kind === "process" && <AnalysisResults analysis={analysis.result as ProcessAnalysis} />}
+          {analysis.kind === "object" && <VBOAnalysisResults analysis={analysis.result as VBOAnalysis} />}
+          {analysis.kind === "release" && <ReleaseAnalysisResults analysis={analysis.result as ReleaseAnalysis} />}
+        </div>
+      )}
+    </>
+  );
+}
+
+function AnalysisList() {
+  const { toast } = useToast();
+  const { data: analyses = [], isLoading } = useQuery<AnalysisSummary[]>({
+    queryKey: ["/api/analyses"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/analyses/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/analyses"] });
+      toast({
+        title: "Analysis deleted",
+        description: "The analysis was removed from the history",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error deleting analysis",
+        description: error instanceof Error ? error.message : "Failed to delete the analysis",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader className="border-b border-gray-200">
+        <CardTitle className="text-xl font-semibold text-bp-dark flex items-center">
+          <HistoryIcon className="mr-2 h-5 w-5" />
+          Analysis History ({analyses.length})
+        </CardTitle>
+      </CardHeader>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader className="bg-gray-50">
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>File</TableHead>
+              <TableHead>Analyzed</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {analyses.map(analysis => (
+              <TableRow key={analysis.id} className="table-row hover:bg-gray-50">
+                <TableCell>
+                  <Link href={`/history/${analysis.id}`} className="text-sm font-medium text-gray-900 hover:text-bp-blue">
+                    {analysis.name}
+                  </Link>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" className="text-xs">{kindLabels[analysis.kind]}</Badge>
+                </TableCell>
+                <TableCell>
+                  <div className="text-sm text-gray-600">{analysis.fileName}</div>
+                  <div className="text-xs text-gray-500">{(analysis.fileSize / 1024).toFixed(1)} KB</div>
+                </TableCell>
+                <TableCell className="text-sm text-gray-600">{formatDate(analysis.createdAt)}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(analysis.id)}
+                    title="Delete analysis"
+                  >
+                    <Trash2 className="h-4 w-4 text-gray-500" />
+                  </Button>
+                  <Link href={`/history/${analysis.id}`} className="inline-flex align-middle ml-2">
+                    <ChevronRight className="h-4 w-4 text-gray-400" />
+                  </Link>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {!isLoading && analyses.length === 0 && (
+        <div className="text-center py-8">
+          <p className="text-gray-500">No analyses yet. Files analyzed on the Analyze page are saved here.</p>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+export default function History() {
+  const [isDetail, params] = useRoute("/history/:id");
+
+  return (
+    <div className="bg-bp-surface min-h-screen">
+      {/* Header */}
+      <AppHeader />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isDetail ? <AnalysisDetail id={params.id} /> : <AnalysisList />}
+      </main>
+    </div>
+  );
+}
@@ -2,26 +2,50 @@ import { useState } from "react";
 import { UnifiedUpload } from "@/components/unified-upload";
 import { AnalysisResults } from "@/components/analysis-results";
 import { VBOAnalysisResults } from "@/components/vbo-analysis-results";
+import { ReleaseAnalysisResults } from "@/components/release-analysis-results";
+import { WorkspaceResults } from "@/components/workspace-results";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import logoImagePath from "@assets/image_1754245003276.png";
-import type { ProcessAnalysis, VBOAnalysis } from "@shared/schema";
+import { AppHeader } from "@/components/app-header";
+import type { ProcessAnalysis, VBOAnalysis, ReleaseAnalysis, WorkspaceAnalysis } from "@shared/schema";
 
 export default function Home() {
   const [analysis, setAnalysis] = useState<ProcessAnalysis | null>(null);
   const [vboAnalysis, setVboAnalysis] = useState<VBOAnalysis | null>(null);
+  const [releaseAnalysis, setReleaseAnalysis] = useState<ReleaseAnalysis | null>(null);
+  const [workspaceAnalysis, setWorkspaceAnalysis] = useState<WorkspaceAnalysis | null>(null);
   const [isUploading, setIsUploading] = useState(false);
 
 
   const handleProcessAnalysisComplete = (result: ProcessAnalysis) => {
     setAnalysis(result);
     setVboAnalysis(null); // Clear VBO analysis when process analysis is complete
+    setReleaseAnalysis(null);
+    setWorkspaceAnalysis(null);
     setIsUploading(false);
   };
 
   const handleVboAnalysisComplete = (result: VBOAnalysis) => {
     setVboAnalysis(result);
     setAnalysis(null); // Clear process analysis when VBO analysis is complete
+    setReleaseAnalysis(null);
+    setWorkspaceAnalysis(null);
+    setIsUploading(false);
+  };
+
+  const handleReleaseAnalysisComplete = (result: ReleaseAnalysis) => {
+    setReleaseAnalysis(result);
+    setAnalysis(null);
+    setVboAnalysis(null);
+    setWorkspaceAnalysis(null);
+    setIsUploading(false);
+  };
+
+  const handleWorkspaceAnalysisComplete = (result: WorkspaceAnalysis) => {
+    setWorkspaceAnalysis(result);
+    setAnalysis(null);
+    setVboAnalysis(null);
+    setReleaseAnalysis(null);
     setIsUploading(false);
   };
 
@@ -29,6 +53,8 @@ export default function Home() {
     setIsUploading(true);
     setAnalysis(null);
     setVboAnalysis(null);
+    setReleaseAnalysis(null);
+    setWorkspaceAnalysis(null);
   };
 
   const handleUploadError = () => {
@@ -38,21 +64,7 @@ export default function Home() {
   return (
     <div className="bg-bp-surface min-h-screen">
       {/* Header */}
-      <header className="bg-white shadow-sm border-b border-gray-200">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-3">
-              <div className="w-10 h-10 flex items-center justify-center">
-                <img src={logoImagePath} alt="Blue Prism Logo" className="w-10 h-10 rounded-lg" />
-              </div>
-              <div className="flex items-center h-10">
-                <h1 className="text-2xl font-bold text-bp-blue">Blue Prism Dependency Explorer</h1>
-              </div>
-            </div>
-
-          </div>
-        </div>
-      </header>
+      <AppHeader />
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Unified File Upload Section */}
@@ -61,6 +73,8 @@ export default function Home() {
             <UnifiedUpload
               onProcessAnalysisComplete={handleProcessAnalysisComplete}
               onVBOAnalysisComplete={handleVboAnalysisComplete}
+              onReleaseAnalysisComplete={handleReleaseAnalysisComplete}
+              onWorkspaceAnalysisComplete={handleWorkspaceAnalysisComplete}
               onUploadStart={handleUploadStart}
               onUploadError={handleUploadError}
               isUploading={isUploading}
@@ -81,6 +95,20 @@ export default function Home() {
             <VBOAnalysisResults analysis={vboAnalysis} />
           </div>
         )}
+
+        {/* Release Analysis Results */}
+        {releaseAnalysis && (
+          <div className="fade-in">
+            <ReleaseAnalysisResults analysis={releaseAnalysis} />
+          </div>
+        )}
+
+        {/* Workspace Analysis Results */}
+        {workspaceAnalysis && (
+          <div className="fade-in">
+            <WorkspaceResults analysis={workspaceAnalysis} />
+          </div>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { AppHeader } from "@/components/app-header";
+import { FileSlot } from "@/components/file-slot";
+import { ImpactReport } from "@/components/impact-report";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Cog, ShieldAlert } from "lucide-react";
+import type { ImpactReport as ImpactReportData } from "@shared/schema";
+
+export default function Impact() {
+  const [newFile, setNewFile] = useState<File | null>(null);
+  const [oldFile, setOldFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ImpactReportData | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const { toast } = useToast();
+
+  const handleAnalyze = async () => {
+    if (!newFile) return;
+
+    setIsAnalyzing(true);
+    setReport(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', newFile);
+      if (oldFile) formData.append('old', oldFile);
+
+      const response = await apiRequest('POST', '/api/impact', formData);
+      setReport(await response.json());
+    } catch (error) {
+      console.error('Impact analysis error:', error);
+      toast({
+        title: "Error analyzing impact",
+        description: error instanceof Error ? error.message : "Failed to analyze the impact",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  return (
+    <div className="bg-bp-surface min-h-screen">
+      {/* Header */}
+      <AppHeader />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* File Selection */}
+        <Card className="card-shadow mb-8">
+          <CardContent className="p-8">
+            <div className="text-center mb-6">
+              <h2 className="text-xl font-semibold text-bp-dark mb-2">VBO Release Impact</h2>
+              <p className="text-sm text-gray-600">
+                See which process stages a new version of a business object would break, from the changes to its action inputs and outputs and the where-used index of saved processes. Without a previous version, the latest saved analysis of the object is used.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+              <FileSlot label="New version" file={newFile} onFile={setNewFile} extensions={['.bpobject']} />
+              <FileSlot label="Previous version (optional)" file={oldFile} onFile={setOldFile} extensions={['.bpobject']} />
+            </div>
+            <div className="text-center">
+              <Button
+                className="bg-bp-blue text-white hover:bg-blue-700"
+                disabled={!newFile || isAnalyzing}
+                onClick={handleAnalyze}
+              >
+                {isAnalyzing ? (
+                  <Cog className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <ShieldAlert className="mr-2 h-4 w-4" />
+                )}
+                Analyze impact
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Impact Report */}
+        {report && (
+          <div className="fade-in">
+            <ImpactReport report={report} />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
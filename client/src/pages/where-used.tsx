@@ -0,0 +1,167 @@
+import { useState, type FormEvent } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { AppHeader } from "@/components/app-header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { downloadCsv } from "@/lib/export";
+import { Cog, Download, Search } from "lucide-react";
+import type { VBOCallSite } from "@shared/schema";
+
+interface SearchTerms {
+  object: string;
+  action: string;
+}
+
+function searchUrl({ object, action }: SearchTerms): string {
+  const params = new URLSearchParams({ object });
+  if (action) params.set("action", action);
+  return `/api/where-used?${params}`;
+}
+
+export default function WhereUsed() {
+  const [object, setObject] = useState("");
+  const [action, setAction] = useState("");
+  const [terms, setTerms] = useState<SearchTerms | null>(null);
+  const { toast } = useToast();
+
+  const { data: callSites = [], isFetching, error } = useQuery<VBOCallSite[]>({
+    queryKey: [terms ? searchUrl(terms) : ""],
+    enabled: terms !== null,
+    staleTime: 0,
+  });
+
+  const processCount = new Set(callSites.map(callSite => callSite.processName)).size;
+
+  const handleSearch = (event: FormEvent) => {
+    event.preventDefault();
+    if (object.trim()) setTerms({ object: object.trim(), action: action.trim() });
+  };
+
+  const handleExport = () => {
+    const csvRows = [["Process", "Page", "Stage", "Object", "Action"]];
+    callSites.forEach(callSite => {
+      csvRows.push([callSite.processName, callSite.page, callSite.stageName, callSite.objectName, callSite.actionName]);
+    });
+
+    downloadCsv(csvRows, `${terms?.object}_where_used.csv`);
+
+    toast({
+      title: "Export completed",
+      description: "Where-used results exported to CSV file",
+    });
+  };
+
+  return (
+    <div className="bg-bp-surface min-h-screen">
+      {/* Header */}
+      <AppHeader />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Search */}
+        <Card className="card-shadow mb-8">
+          <CardContent className="p-8">
+            <div className="text-center mb-6">
+              <h2 className="text-xl font-semibold text-bp-dark mb-2">Where Used</h2>
+              <p className="text-sm text-gray-600">
+                Find every process, page and stage that calls a business object or one of its actions, across the latest saved analysis of each process
+              </p>
+            </div>
+            <form onSubmit={handleSearch} className="flex flex-col md:flex-row gap-4">
+              <Input
+                placeholder="Object name, e.g. MS Excel VBO"
+                value={object}
+                onChange={event => setObject(event.target.value)}
+              />
+              <Input
+                placeholder="Action (optional)"
+                value={action}
+                onChange={event => setAction(event.target.value)}
+              />
+              <Button type="submit" className="bg-bp-blue text-white hover:bg-blue-700" disabled={!object.trim() || isFetching}>
+                {isFetching ? (
+                  <Cog className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Search className="mr-2 h-4 w-4" />
+                )}
+                Search
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        {terms && !isFetching && (
+          <Card className="card-shadow fade-in">
+            <CardHeader className="border-b border-gray-200">
+              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-4 sm:space-y-0">
+                <div>
+                  <CardTitle className="text-xl font-semibold text-bp-dark">
+                    {terms.action ? `${terms.object} • ${terms.action}` : terms.object}
+                  </CardTitle>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {callSites.length} {callSites.length === 1 ? "call" : "calls"} in {processCount} {processCount === 1 ? "process" : "processes"}
+                  </p>
+                </div>
+                <Button onClick={handleExport} disabled={callSites.length === 0} className="bg-bp-green text-white hover:bg-green-700">
+                  <Download className="mr-2 h-4 w-4" />
+                  Export CSV
+                </Button>
+              </div>
+            </CardHeader>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead>Process</TableHead>
+                    <TableHead>Page</TableHead>
+                    <TableHead>Stage</TableHead>
+                    <TableHead>Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {callSites.map((callSite, index) => (
+                    <TableRow key={`${callSite.analysisId}-${callSite.processName}-${callSite.stageId}-${index}`} className="table-row hover:bg-gray-50">
+                      <TableCell>
+                        <Link href={`/history/${callSite.analysisId}`} className="text-sm font-medium text-gray-900 hover:text-bp-blue">
+                          {callSite.processName}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-700">{callSite.page}</TableCell>
+                      <TableCell className="text-sm text-gray-700">{callSite.stageName}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="text-xs">{callSite.actionName}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {error ? (
+              <div className="text-center py-8">
+                <p className="text-red-600">{error instanceof Error ? error.message : "Search failed"}</p>
+              </div>
+            ) : callSites.length === 0 && (
+              <div className="text-center py-8">
+                <p className="text-gray-500">No saved process calls this {terms.action ? "action" : "object"}</p>
+              </div>
+            )}
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+// Compares the previous in-memory xml2js pipeline with the streaming parser on
+// a synthetic release built by repeating the items of a sample export.
+//
+//   npm run bench:parse -- --size 40 [--sample path/to/export.bprelease]
+//
+// Each pipeline runs in its own child process so that peak memory (max RSS)
+// is measured separately.
+import { spawnSync } from "child_process";
+import { createReadStream, createWriteStream } from "fs";
+import { readFile, stat, unlink } from "fs/promises";
+import { once } from "events";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { parseString } from "xml2js";
+import { analyzeRelease, readExport } from "../server/analysis/release";
+import type { ReleaseAnalysis } from "@shared/schema";
+
+type Mode = "in-memory" | "streaming";
+
+interface Measurement {
+  mode: Mode;
+  seconds: number;
+  maxRssMb: number;
+  items: number;
+}
+
+const DEFAULT_SAMPLE = "attached_assets/bprelease_test_1754143047045.bprelease";
+
+function option(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+// Writes a release of at least `sizeMb` megabytes: the header of the sample,
+// then its <bpr:contents> items repeated with numbered names
+async function generateRelease(samplePath: string, sizeMb: number): Promise<string> {
+  const sample = (await readFile(samplePath, "utf-8")).replace(/^\uFEFF/, "");
+  const contents = sample.match(/^([\s\S]*?<bpr:contents[^>]*>)([\s\S]*)(<\/bpr:contents>[\s\S]*)$/);
+  if (!contents) {
+    throw new Error(`${samplePath} is not a release with <bpr:contents>`);
+  }
+  const [, header, items, footer] = contents;
+
+  const target = path.join(os.tmpdir(), `benchmark-${sizeMb}mb.bprelease`);
+  const out = createWriteStream(target);
+  out.write(header);
+  let written = Buffer.byteLength(header);
+  for (let copy = 1; written < sizeMb * 1024 * 1024; copy++) {
+    const chunk = items.replace(/(<(?:process|object) id="[^"]*" name=")([^"]*)"/g, `$1$2 #${copy}"`);
+    written += Buffer.byteLength(chunk);
+    if (!out.write(chunk)) await once(out, "drain");
+  }
+  out.end(footer);
+  await once(out, "finish");
+  return target;
+}
+
+function parseWithXml2js(xmlContent: string): Promise<any> {
+  return new Promise<any>((resolve, reject) => {
+    parseString(xmlContent, (err, result) => {
+      if (err) reject(err);
+      else resolve(result);
+    });
+  });
+}
+
+// Runs one pipeline in this process and prints its measurement as JSON
+async function measure(mode: Mode, filePath: string) {
+  const { size } = await stat(filePath);
+  const source = { fileName: path.basename(filePath), fileSize: size };
+  const started = process.hrtime.bigint();
+
+  let release: ReleaseAnalysis | undefined;
+  if (mode === "in-memory") {
+    const xmlContent = (await readFile(filePath)).toString("utf-8");
+    const result = await parseWithXml2js(xmlContent);
+    release = analyzeRelease(result["bpr:release"], source);
+  } else {
+    ({ release } = await readExport(createReadStream(filePath), source));
+  }
+
+  const measurement: Measurement = {
+    mode,
+    seconds: Number(process.hrtime.bigint() - started) / 1e9,
+    maxRssMb: process.resourceUsage().maxRSS / 1024,
+    items: release?.items.length ?? 0,
+  };
+  console.log(JSON.stringify(measurement));
+}
+
+function runChild(mode: Mode, filePath: string): Measurement {
+  const script = fileURLToPath(import.meta.url);
+  const child = spawnSync(process.execPath, [...process.execArgv, script, "--measure", mode, "--file", filePath], {
+    encoding: "utf-8",
+    stdio: ["ignore", "pipe", "inherit"],
+  });
+  if (child.status !== 0) {
+    throw new Error(`The ${mode} run failed${child.signal ? ` (${child.signal})` : ""}`);
+  }
+  return JSON.parse(child.stdout.trim().split("\n").pop()!);
+}
+
+async function main() {
+  const measureMode = option("measure", "");
+  if (measureMode) {
+    await measure(measureMode as Mode, option("file", ""));
+    return;
+  }
+
+  const sizeMb = Number(option("size", "40"));
+  const filePath = await generateRelease(option("sample", DEFAULT_SAMPLE), sizeMb);
+  try {
+    const { size } = await stat(filePath);
+    console.log(`Synthetic release: ${(size / 1024 / 1024).toFixed(1)} MB at ${filePath}\n`);
+
+    const results = (["in-memory", "streaming"] as Mode[]).map(mode => runChild(mode, filePath));
+    console.table(results.map(result => ({
+      pipeline: result.mode,
+      "time (s)": result.seconds.toFixed(2),
+      "max RSS (MB)": result.maxRssMb.toFixed(0),
+      items: result.items,
+    })));
+
+    const [before, after] = results;
+    console.log(`Streaming uses ${(before.maxRssMb / after.maxRssMb).toFixed(1)}x less peak memory `
+      + `and takes ${(after.seconds / before.seconds * 100).toFixed(0)}% of the time.`);
+  } finally {
+    await unlink(filePath);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
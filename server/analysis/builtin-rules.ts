@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { defineRule, type Rule, type RuleViolation } from "./rules";
+import { childText } from "./xml";
+import { nameKey } from "./dependencies";
+
+// Stages that only describe a page and are not counted towards its size
+const PAGE_INFO_TYPES = new Set(["SubSheetInfo", "ProcessInfo"]);
+
+const actionNames = z.array(z.string());
+
+const hardCodedWait = defineRule({
+  id: "hard-coded-wait",
+  severity: "warning",
+  description: "Fixed delays slow every run and hide timing problems; wait for an element or condition instead",
+  options: z.object({
+    // Actions that only pause, such as Utility - Environment's Sleep
+    sleepActions: actionNames.default(["Sleep", "Wait"]),
+  }).strict(),
+  check({ pages, options }) {
+    const sleepActions = new Set(options.sleepActions.map(nameKey));
+    const violations: RuleViolation[] = [];
+
+    pages.forEach(page => {
+      page.stages.forEach((stage: any) => {
+        const type = stage.$.type;
+
+        // A Wait stage without conditions always runs into its timeout
+        if (type === "WaitStart" && !stage.choices?.[0]?.choice?.length) {
+          const timeout = childText(stage, "timeout")?.trim() || "";
+          if (!timeout.includes("[")) {
+            violations.push(violation(stage, page.name, `Waits a fixed ${timeout || "0"} seconds`));
+          }
+        }
+
+        const resource = stage.resource?.[0]?.$;
+        if (type === "Action" && resource && sleepActions.has(nameKey(resource.action || ""))) {
+          const inputs = stage.inputs?.[0]?.input || [];
+          if (inputs.every((input: any) => !(input.$.expr || "").includes("["))) {
+            violations.push(violation(stage, page.name, `Calls ${resource.object}: ${resource.action} with a fixed delay`));
+          }
+        }
+      });
+    });
+
+    return violations;
+  },
+});
+
+const pageTooLarge = defineRule({
+  id: "page-too-large",
+  severity: "warning",
+  description: "Large pages are hard to read and test; split them into smaller pages",
+  options: z.object({
+    maxStages: z.number().int().positive().default(50),
+  }).strict(),
+  check({ pages, options }) {
+    return pages
+      .map(page => ({ page, count: page.stages.filter((stage: any) => !PAGE_INFO_TYPES.has(stage.$.type)).length }))
+      .filter(({ count }) => count > options.maxStages)
+      .map(({ page, count }) => ({
+        message: `${count} stages, more than the limit of ${options.maxStages}`,
+        page: page.name,
+      }));
+  },
+});
+
+const publishedActionNarrative: Rule = {
+  id: "published-action-narrative",
+  severity: "info",
+  description: "Published actions need a description so process developers know what they do",
+  appliesTo: ["object"],
+  check({ pages }) {
+    return pages
+      .filter(page => page.subsheet?.$.published === "True" && page.subsheet?.$.type === "Normal")
+      .filter(page => {
+        const info = page.stages.find((stage: any) => stage.$.type === "SubSheetInfo");
+        return !childText(info, "narrative")?.trim();
+      })
+      .map(page => ({ message: `Action "${page.name}" has no description`, page: page.name }));
+  },
+};
+
+const excelWithoutClose = defineRule({
+  id: "excel-without-close",
+  severity: "warning",
+  description: "Excel instances opened on a page should be closed on the same page, or they are left running on the resource",
+  options: z.object({
+    objectPattern: z.string().refine(isValidPattern, "not a valid regular expression").default("excel"),
+    openActions: actionNames.default(["Create Instance", "Open Instance"]),
+    closeActions: actionNames.default(["Close Instance", "Close All Instances", "Exit"]),
+  }).strict(),
+  check({ pages, options }) {
+    const objectPattern = new RegExp(options.objectPattern, "i");
+    const openActions = new Set(options.openActions.map(nameKey));
+    const closeActions = new Set(options.closeActions.map(nameKey));
+    const violations: RuleViolation[] = [];
+
+    pages.forEach(page => {
+      const excelCalls = page.stages.filter((stage: any) =>
+        stage.$.type === "Action" && objectPattern.test(stage.resource?.[0]?.$?.object || "")
+      );
+      const actionName = (stage: any): string => stage.resource?.[0]?.$?.action || "";
+      const action = (stage: any) => nameKey(actionName(stage));
+
+      if (excelCalls.some((stage: any) => closeActions.has(action(stage)))) return;
+      excelCalls
+        .filter((stage: any) => openActions.has(action(stage)))
+        .forEach((stage: any) => {
+          violations.push(violation(stage, page.name, `${actionName(stage)} is never followed by a close on this page`));
+        });
+    });
+
+    return violations;
+  },
+});
+
+export const BUILTIN_RULES: Rule<any>[] = [
+  hardCodedWait,
+  pageTooLarge,
+  publishedActionNarrative,
+  excelWithoutClose,
+];
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function violation(stage: any, page: string, message: string): RuleViolation {
+  return {
+    message,
+    stageId: stage.$.stageid,
+    stageName: stage.$.name || "",
+    page,
+  };
+}
@@ -0,0 +1,63 @@
+import { createHash } from "crypto";
+import type { Readable } from "stream";
+import { StringDecoder } from "string_decoder";
+import type { RuleConfig } from "./rules";
+
+// Bump whenever a change to the analysis modules alters their output, so
+// results saved by an older analyzer are no longer served from the cache.
+export const ANALYZER_VERSION = 2;
+
+// SHA-256, in hex, of a file with the differences that do not matter to the
+// analysis removed: a byte order mark, Windows or old Mac line endings and
+// surrounding whitespace. The file is hashed as it is read.
+export async function hashXmlStream(input: Readable): Promise<string> {
+  const hasher = new XmlHasher();
+  const decoder = new StringDecoder("utf8");
+  for await (const chunk of input) {
+    hasher.update(typeof chunk === "string" ? chunk : decoder.write(chunk));
+  }
+  hasher.update(decoder.end());
+  return hasher.digest();
+}
+
+// Normalizes text chunk by chunk. A carriage return at the end of a chunk and
+// trailing whitespace are held back until the next chunk shows whether they
+// are part of a line ending or the end of the file.
+class XmlHasher {
+  private hash = createHash("sha256");
+  private started = false;
+  private pendingWhitespace = "";
+  private pendingReturn = false;
+
+  update(chunk: string) {
+    let text = (this.pendingReturn ? "\r" : "") + chunk;
+    this.pendingReturn = text.endsWith("\r");
+    if (this.pendingReturn) text = text.slice(0, -1);
+    text = text.replace(/\r\n?/g, "\n");
+
+    if (!this.started) {
+      text = text.replace(/^\s+/, "");
+      if (!text) return;
+      this.started = true;
+    }
+
+    const trailing = text.length - text.trimEnd().length;
+    const content = text.slice(0, text.length - trailing);
+    if (content) {
+      this.hash.update(this.pendingWhitespace + content);
+      this.pendingWhitespace = "";
+    }
+    this.pendingWhitespace += text.slice(text.length - trailing);
+  }
+
+  digest(): string {
+    return this.hash.digest("hex");
+  }
+}
+
+// The version cached results are stored under. Rule settings change the
+// findings too, so they are part of it alongside ANALYZER_VERSION.
+export function analyzerVersion(ruleConfig: RuleConfig): string {
+  const rules = createHash("sha256").update(JSON.stringify(ruleConfig)).digest("hex");
+  return `${ANALYZER_VERSION}-${rules.slice(0, 12)}`;
+}
@@ -0,0 +1,138 @@
+import type { CallGraph, SubsheetCall } from "@shared/schema";
+import { getPages } from "./pages";
+import { childText } from "./xml";
+
+export const MAIN_PAGE_KEY = "main";
+
+// Builds the page-to-page call graph from SubSheet stages, whose <processid>
+// holds the id of the called subsheet.
+export function buildCallGraph(process: any): CallGraph {
+  const pages = getPages(process).map(page => ({
+    key: page.id || MAIN_PAGE_KEY,
+    name: page.name,
+    stages: page.stages,
+  }));
+  const pageKeys = new Set(pages.map(page => page.key));
+
+  const callsByPair = new Map<string, SubsheetCall>();
+  const unresolvedCalls: CallGraph["unresolvedCalls"] = [];
+  pages.forEach(page => {
+    page.stages
+      .filter((stage: any) => stage.$.type === "SubSheet")
+      .forEach((stage: any) => {
+        const target = childText(stage, "processid")?.trim() || "";
+        if (!pageKeys.has(target)) {
+          unresolvedCalls.push({ from: page.key, stageName: stage.$.name || "", target });
+          return;
+        }
+
+        const pairKey = `${page.key}->${target}`;
+        if (!callsByPair.has(pairKey)) {
+          callsByPair.set(pairKey, { from: page.key, to: target, stageNames: [] });
+        }
+        callsByPair.get(pairKey)!.stageNames.push(stage.$.name || "");
+      });
+  });
+  const calls = Array.from(callsByPair.values());
+
+  const callees = new Map<string, string[]>();
+  pages.forEach(page => callees.set(page.key, []));
+  calls.forEach(call => callees.get(call.from)!.push(call.to));
+
+  // Pages the Main Page can never reach, directly or through other pages
+  const reached = new Set<string>([MAIN_PAGE_KEY]);
+  const queue = [MAIN_PAGE_KEY];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    callees.get(current)!.forEach(next => {
+      if (!reached.has(next)) {
+        reached.add(next);
+        queue.push(next);
+      }
+    });
+  }
+  const orphanPages = pages.filter(page => !reached.has(page.key)).map(page => page.key);
+
+  const components = stronglyConnectedComponents(pages.map(page => page.key), callees);
+  const cycles = components.filter(component =>
+    component.length > 1 || callees.get(component[0])!.includes(component[0])
+  );
+
+  return {
+    pages: pages.map(page => ({ key: page.key, name: page.name })),
+    calls,
+    unresolvedCalls,
+    orphanPages,
+    cycles,
+    maxDepth: longestCallChain(MAIN_PAGE_KEY, components, callees),
+  };
+}
+
+// Tarjan's algorithm; each recursive page cycle is one component
+function stronglyConnectedComponents(keys: string[], callees: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let counter = 0;
+
+  const visit = (key: string) => {
+    index.set(key, counter);
+    lowLink.set(key, counter);
+    counter++;
+    stack.push(key);
+    onStack.add(key);
+
+    callees.get(key)!.forEach(next => {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(key, Math.min(lowLink.get(key)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(key, Math.min(lowLink.get(key)!, index.get(next)!));
+      }
+    });
+
+    if (lowLink.get(key) === index.get(key)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== key);
+      components.push(component.reverse());
+    }
+  };
+
+  keys.forEach(key => {
+    if (!index.has(key)) visit(key);
+  });
+
+  return components;
+}
+
+// Longest chain of nested page calls starting at `root`. A recursive cycle is
+// collapsed into a single level since its real depth depends on runtime data.
+function longestCallChain(root: string, components: string[][], callees: Map<string, string[]>): number {
+  const componentOf = new Map<string, number>();
+  components.forEach((component, i) => component.forEach(key => componentOf.set(key, i)));
+
+  const depthOf = new Map<number, number>();
+  const depth = (componentIndex: number): number => {
+    if (depthOf.has(componentIndex)) return depthOf.get(componentIndex)!;
+    let deepest = 0;
+    components[componentIndex].forEach(key => {
+      callees.get(key)!.forEach(next => {
+        const nextComponent = componentOf.get(next)!;
+        if (nextComponent !== componentIndex) {
+          deepest = Math.max(deepest, 1 + depth(nextComponent));
+        }
+      });
+    });
+    depthOf.set(componentIndex, deepest);
+    return deepest;
+  };
+
+  return depth(componentOf.get(root)!);
+}
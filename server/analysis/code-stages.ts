@@ -0,0 +1,91 @@
+import type { CodeInfo, CodeStage, RiskyCodeUsage } from "@shared/schema";
+import { getPages } from "./pages";
+import { childText } from "./xml";
+
+// Name used for the object's global code in stage-less findings
+export const GLOBAL_CODE_NAME = "Global Code";
+
+// API calls that deserve a reviewer's attention, matched line by line
+const RISKY_PATTERNS: { kind: RiskyCodeUsage["kind"]; pattern: RegExp }[] = [
+  { kind: "process-start", pattern: /\bProcess\.Start\s*\(|\bShell\s*\(/i },
+  { kind: "file-delete", pattern: /\b(File|Directory)\.Delete\s*\(|\bFileSystem\.Delete(File|Directory)\s*\(|\bKill\s*\(/i },
+  { kind: "thread-sleep", pattern: /\bThread\.Sleep\s*\(/i },
+  // SQL statements written out in string literals
+  { kind: "raw-sql", pattern: /"[^"]*\b(SELECT\b[^"]*\bFROM|INSERT\s+INTO|UPDATE\b[^"]*\bSET|DELETE\s+FROM|EXEC(UTE)?\s+\w)/i },
+];
+
+// Collects the code of an object: the assemblies and namespaces declared on
+// its Initialise page (the ProcessInfo stage), its global code and every Code
+// stage, and scans all of it for risky API calls.
+export function extractCodeInfo(process: any): CodeInfo {
+  const info = (process.stage || []).find((stage: any) => stage.$?.type === "ProcessInfo");
+
+  const codeStages: CodeStage[] = [];
+  getPages(process).forEach(page => {
+    page.stages
+      .filter((stage: any) => stage.$?.type === "Code")
+      .forEach((stage: any) => {
+        codeStages.push({
+          stageId: stage.$.stageid || "",
+          stageName: stage.$.name || "",
+          page: page.name,
+          inputs: (stage.inputs?.[0]?.input || []).map((input: any) => ({
+            name: input.$.name || "",
+            type: input.$.type || "text",
+          })),
+          outputs: (stage.outputs?.[0]?.output || []).map((output: any) => ({
+            name: output.$.name || "",
+            type: output.$.type || "text",
+          })),
+          source: childText(stage, "code") || "",
+        });
+      });
+  });
+
+  // The Global Code tab is exported in the ProcessInfo stage's <code>; keep
+  // <globalcode> too in case an export fills that instead
+  const globalCode = [childText(info, "globalcode"), childText(info, "code")]
+    .filter(code => code?.trim())
+    .join("\n");
+  const riskyUsages = [
+    ...findRiskyUsages(globalCode, {}),
+    ...codeStages.flatMap(stage => findRiskyUsages(stage.source, stage)),
+  ];
+
+  return {
+    language: childText(info, "language")?.trim() || "visualbasic",
+    references: (info?.references?.[0]?.reference || []).map((reference: any) => textOf(reference)).filter(Boolean),
+    imports: (info?.imports?.[0]?.import || []).map((namespace: any) => textOf(namespace)).filter(Boolean),
+    globalCode,
+    codeStages,
+    riskyUsages,
+  };
+}
+
+function findRiskyUsages(source: string, stage: Partial<CodeStage>): RiskyCodeUsage[] {
+  const usages: RiskyCodeUsage[] = [];
+
+  source.split(/\r?\n/).forEach((line, index) => {
+    // Skip VB (') and C# (//) comment lines
+    const trimmed = line.trim();
+    if (trimmed.startsWith("'") || trimmed.startsWith("//")) return;
+
+    RISKY_PATTERNS.forEach(({ kind, pattern }) => {
+      if (!pattern.test(line)) return;
+      usages.push({
+        kind,
+        stageId: stage.stageId,
+        stageName: stage.stageName || GLOBAL_CODE_NAME,
+        page: stage.page,
+        line: index + 1,
+        snippet: trimmed,
+      });
+    });
+  });
+
+  return usages;
+}
+
+function textOf(node: any): string {
+  return (typeof node === "string" ? node : node?._ || "").trim();
+}
@@ -0,0 +1,81 @@
+import type { ConfigurationReport, CredentialUsage, DataItem, EnvironmentVariable } from "@shared/schema";
+import { getPages } from "./pages";
+import { expressionReferences, resolveDataItem } from "./data-items";
+import { nameKey } from "./dependencies";
+
+// Blue Prism's internal business object behind the Credentials actions
+const CREDENTIALS_OBJECT = "Blueprism.AutomateProcessCore.clsCredentialsActions";
+const CREDENTIAL_NAME_INPUT = /^credentials? name$/i;
+
+// Everything a process or object expects the target environment to provide:
+// environment variables (data items exposed as Environment) and the
+// credentials read or written through the Credentials business object.
+export function buildConfigurationReport(process: any, dataItems: DataItem[]): ConfigurationReport {
+  return {
+    environmentVariables: environmentVariables(dataItems),
+    credentials: credentialUsages(process, dataItems),
+  };
+}
+
+function environmentVariables(dataItems: DataItem[]): EnvironmentVariable[] {
+  const variables = new Map<string, EnvironmentVariable>();
+
+  // The same environment variable is usually declared on several pages
+  dataItems
+    .filter(item => item.exposure === "Environment")
+    .forEach(item => {
+      const key = nameKey(item.name);
+      const variable = variables.get(key);
+      if (!variable) {
+        variables.set(key, {
+          name: item.name,
+          dataType: item.dataType,
+          defaultValue: item.initialValue,
+          pages: [item.page],
+        });
+        return;
+      }
+      if (!variable.defaultValue) variable.defaultValue = item.initialValue;
+      if (!variable.pages.includes(item.page)) variable.pages.push(item.page);
+    });
+
+  return Array.from(variables.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function credentialUsages(process: any, dataItems: DataItem[]): CredentialUsage[] {
+  const usages: CredentialUsage[] = [];
+
+  getPages(process).forEach(page => {
+    page.stages.forEach((stage: any) => {
+      const resource = stage.resource?.[0]?.$;
+      if (stage.$?.type !== "Action" || resource?.object !== CREDENTIALS_OBJECT) return;
+
+      const input = (stage.inputs?.[0]?.input || []).find((input: any) => CREDENTIAL_NAME_INPUT.test(input.$?.name || ""));
+      const expression = input?.$?.expr || "";
+
+      usages.push({
+        credentialName: credentialName(expression, page.name, dataItems),
+        expression,
+        actionName: resource.action || "",
+        stageId: stage.$.stageid || "",
+        stageName: stage.$.name || "",
+        page: page.name,
+      });
+    });
+  });
+
+  return usages;
+}
+
+// Resolves the credential name when the expression is a string literal or a
+// single data item reference with an initial value; anything computed at run
+// time is left unresolved.
+function credentialName(expression: string, page: string, dataItems: DataItem[]): string | undefined {
+  const literal = expression.trim().match(/^"((?:[^"]|"")*)"$/);
+  if (literal) return literal[1].replace(/""/g, '"');
+
+  const references = expressionReferences(expression);
+  if (references.length !== 1 || expression.trim() !== `[${references[0]}]`) return undefined;
+
+  return resolveDataItem(dataItems, references[0], page)?.item.initialValue || undefined;
+}
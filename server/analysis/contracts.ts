@@ -0,0 +1,87 @@
+import type { ActionCall, ParameterIssue, ProcessAnalysis, VBOAnalysis, VBOActionDef } from "@shared/schema";
+import { nameKey } from "./dependencies";
+
+type Parameter = { name: string; type: string };
+
+// Compares the parameters each Action stage maps against the signature of the
+// action it calls. Calls to objects or actions that are not in `objects` are
+// left to the dependency check.
+//
+// Blue Prism has no notion of an optional input: a stage lists every input of
+// the action it was built against, with a blank expression for defaults. An
+// input missing from the stage therefore means the signature changed since.
+export function checkParameterContracts(processes: ProcessAnalysis[], objects: VBOAnalysis[]): ParameterIssue[] {
+  const issues: ParameterIssue[] = [];
+
+  const actionsByObject = new Map<string, Map<string, VBOActionDef>>();
+  objects.forEach(object => {
+    const actions = new Map<string, VBOActionDef>();
+    (object.actions as VBOActionDef[]).forEach(action => actions.set(nameKey(action.name), action));
+    actionsByObject.set(nameKey(object.vboName), actions);
+  });
+
+  processes.forEach(process => {
+    (process.actionCalls || []).forEach(call => {
+      const action = actionsByObject.get(nameKey(call.objectName))?.get(nameKey(call.actionName));
+      if (!action) return;
+
+      const report = (kind: ParameterIssue["kind"], parameterName: string, expectedType?: string, actualType?: string) => {
+        issues.push({
+          kind,
+          processName: process.processName,
+          page: call.page,
+          stageId: call.stageId,
+          stageName: call.stageName,
+          objectName: call.objectName,
+          actionName: call.actionName,
+          parameterName,
+          expectedType,
+          actualType,
+        });
+      };
+
+      compareParameters(call.inputs, action.inputs || [], {
+        onMissing: parameter => report("missing-input", parameter.name, parameter.type),
+        onUnknown: parameter => report("unknown-input", parameter.name, undefined, parameter.type),
+        onTypeMismatch: (expected, actual) => report("type-mismatch", actual.name, expected.type, actual.type),
+      });
+
+      compareParameters(call.outputs, action.outputs || [], {
+        // Ignoring an output is legitimate, so missing outputs are not reported
+        onMissing: () => {},
+        onUnknown: parameter => report("unknown-output", parameter.name, undefined, parameter.type),
+        onTypeMismatch: (expected, actual) => report("type-mismatch", actual.name, expected.type, actual.type),
+      });
+    });
+  });
+
+  return issues;
+}
+
+function compareParameters(
+  passed: ActionCall["inputs"] | ActionCall["outputs"],
+  signature: Parameter[],
+  handlers: {
+    onMissing: (parameter: Parameter) => void;
+    onUnknown: (parameter: Parameter) => void;
+    onTypeMismatch: (expected: Parameter, actual: Parameter) => void;
+  },
+) {
+  const passedByName = new Map<string, Parameter>();
+  passed.forEach(parameter => passedByName.set(nameKey(parameter.name), parameter));
+  const signatureByName = new Map<string, Parameter>();
+  signature.forEach(parameter => signatureByName.set(nameKey(parameter.name), parameter));
+
+  signature.forEach(parameter => {
+    if (!passedByName.has(nameKey(parameter.name))) handlers.onMissing(parameter);
+  });
+
+  passed.forEach(parameter => {
+    const expected = signatureByName.get(nameKey(parameter.name));
+    if (!expected) {
+      handlers.onUnknown(parameter);
+    } else if (expected.type !== parameter.type) {
+      handlers.onTypeMismatch(expected, parameter);
+    }
+  });
+}
@@ -0,0 +1,153 @@
+import type { DataItem, DataItemUsage } from "@shared/schema";
+import { getPages } from "./pages";
+import { childText } from "./xml";
+import { nameKey } from "./dependencies";
+
+// Data items referenced by a stage, split by direction
+interface StageReferences {
+  reads: string[];
+  writes: string[];
+}
+
+// Lists every Data and Collection stage of a process or object with the stages
+// that read or write it. References are matched by name the way Blue Prism
+// scopes them: an item on the stage's own page wins, otherwise any item that
+// is not hidden from other pages.
+export function buildDataCatalogue(process: any): DataItem[] {
+  const items: DataItem[] = [];
+  const pages = getPages(process);
+
+  pages.forEach(page => {
+    page.stages
+      .filter((stage: any) => stage.$?.type === "Data" || stage.$?.type === "Collection")
+      .forEach((stage: any) => items.push(dataItem(stage, page.name)));
+  });
+
+  pages.forEach(page => {
+    page.stages.forEach((stage: any) => {
+      const usage: DataItemUsage = {
+        stageId: stage.$?.stageid || "",
+        stageName: stage.$?.name || "",
+        stageType: stage.$?.type || "",
+        page: page.name,
+      };
+      const references = stageReferences(stage);
+
+      references.reads.forEach(reference => {
+        const item = resolveDataItem(items, reference, page.name)?.item;
+        if (item && !item.reads.some(read => read.stageId === usage.stageId)) item.reads.push(usage);
+      });
+      references.writes.forEach(reference => {
+        const item = resolveDataItem(items, reference, page.name)?.item;
+        if (item && !item.writes.some(write => write.stageId === usage.stageId)) item.writes.push(usage);
+      });
+    });
+  });
+
+  items.forEach(item => {
+    if (item.reads.length === 0) item.status = item.writes.length === 0 ? "unused" : "write-only";
+  });
+
+  return items;
+}
+
+// Names inside square brackets in a Blue Prism expression, e.g. "Total" and
+// "Invoices.Amount" for `[Total] + [Invoices.Amount]`. Brackets inside string
+// literals are ignored.
+export function expressionReferences(expression: string): string[] {
+  const withoutStrings = expression.replace(/"(?:[^"]|"")*"/g, '""');
+  return Array.from(withoutStrings.matchAll(/\[([^\]]+)\]/g), match => match[1].trim());
+}
+
+function dataItem(stage: any, page: string): DataItem {
+  const collectionInfo = stage.collectioninfo?.[0];
+  return {
+    stageId: stage.$.stageid || "",
+    name: stage.$.name || "",
+    kind: stage.$.type,
+    dataType: childText(stage, "datatype")?.trim() || (stage.$.type === "Collection" ? "collection" : "text"),
+    initialValue: stage.$.type === "Data" ? childText(stage, "initialvalue") || "" : "",
+    page,
+    scope: stage.private ? "page" : "global",
+    exposure: childText(stage, "exposure")?.trim() || "None",
+    alwaysInit: Boolean(stage.alwaysinit),
+    fields: collectionInfo
+      ? (collectionInfo.field || []).map((field: any) => ({ name: field.$.name || "", type: field.$.type || "" }))
+      : undefined,
+    reads: [],
+    writes: [],
+    status: "used",
+  };
+}
+
+// Finds the data item a reference made on `page` points at. A collection field
+// reference such as [Invoices.Amount] points at the collection "Invoices", but
+// item names may themselves contain dots, so the full name is tried first.
+export function resolveDataItem(
+  dataItems: DataItem[],
+  reference: string,
+  page: string,
+): { item: DataItem; field?: string } | undefined {
+  const direct = findVisibleItem(dataItems, reference, page);
+  if (direct) return { item: direct };
+
+  const dot = reference.indexOf(".");
+  if (dot <= 0) return undefined;
+  const collection = findVisibleItem(dataItems, reference.slice(0, dot), page);
+  return collection ? { item: collection, field: reference.slice(dot + 1) } : undefined;
+}
+
+function findVisibleItem(dataItems: DataItem[], name: string, page: string): DataItem | undefined {
+  const candidates = dataItems.filter(item => nameKey(item.name) === nameKey(name));
+  return candidates.find(item => item.page === page) || candidates.find(item => item.scope === "global");
+}
+
+function stageReferences(stage: any): StageReferences {
+  const reads: string[] = [];
+  const writes: string[] = [];
+  const readExpression = (expression: string | undefined) => {
+    if (expression) reads.push(...expressionReferences(expression));
+  };
+
+  const type = stage.$?.type;
+  const inputs = stage.inputs?.[0]?.input || [];
+  const outputs = stage.outputs?.[0]?.output || [];
+
+  if (type === "Start") {
+    // Start stage inputs store the caller's values into data items
+    inputs.forEach((input: any) => input.$?.stage && writes.push(input.$.stage));
+  } else if (type === "End") {
+    // End stage outputs hand data items back to the caller
+    outputs.forEach((output: any) => output.$?.stage && reads.push(output.$.stage));
+  } else {
+    // Action, SubSheet, Process and Code stages map expressions in and items out
+    inputs.forEach((input: any) => readExpression(input.$?.expr));
+    outputs.forEach((output: any) => output.$?.stage && writes.push(output.$.stage));
+  }
+
+  [...(stage.calculation || []), ...(stage.steps?.[0]?.calculation || [])].forEach((calculation: any) => {
+    readExpression(calculation.$?.expression);
+    if (calculation.$?.stage) writes.push(calculation.$.stage);
+  });
+
+  (stage.decision || []).forEach((decision: any) => readExpression(decision.$?.expression));
+  (stage.choices?.[0]?.choice || []).forEach((choice: any) => readExpression(choice.$?.expression));
+  (stage.exception || []).forEach((exception: any) => readExpression(exception.$?.detail));
+  (stage.alert || []).forEach((alert: any) => readExpression(alert.$?.expression));
+
+  readExpression(childText(stage, "timeout"));
+
+  const loopData = childText(stage, "loopdata")?.trim();
+  if (type === "LoopStart" && loopData) reads.push(loopData);
+
+  // Read, Write and Navigate stages in objects
+  (stage.step || []).forEach((step: any) => {
+    if (type === "Read" && step.$?.stage) writes.push(step.$.stage);
+    readExpression(step.$?.expr);
+    (step.action?.[0]?.arguments?.[0]?.argument || []).forEach((argument: any) => {
+      readExpression(childText(argument, "value"));
+    });
+  });
+
+  return { reads, writes };
+}
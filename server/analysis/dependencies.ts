@@ -0,0 +1,85 @@
+import type {
+  DependencyIssue,
+  DependencyResolution,
+  ProcessAnalysis,
+  VBOAnalysis,
+  VBOActionDef,
+  VBODependency,
+} from "@shared/schema";
+
+// Built-in business objects (Collections, Work Queues, Environment, ...) ship
+// with Blue Prism and never appear in a release or upload batch.
+export function isInternalBusinessObject(objectName: string): boolean {
+  return objectName.startsWith("Blueprism.");
+}
+
+// Blue Prism resolves object and action names case-insensitively
+export function nameKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+// Matches every action a process calls against the actions the called object
+// actually defines. Only objects present in `objects` can be checked; calls to
+// anything else are reported as missing objects.
+export function resolveDependencies(processes: ProcessAnalysis[], objects: VBOAnalysis[]): DependencyResolution {
+  const issues: DependencyIssue[] = [];
+  let resolvedCalls = 0;
+
+  const objectsByName = new Map<string, VBOAnalysis>();
+  objects.forEach(object => objectsByName.set(nameKey(object.vboName), object));
+
+  // object key -> keys of the actions called on it by any process
+  const calledActions = new Map<string, Set<string>>();
+
+  processes.forEach(process => {
+    (process.dependencies as VBODependency[]).forEach(vbo => {
+      if (isInternalBusinessObject(vbo.name)) return;
+
+      const object = objectsByName.get(nameKey(vbo.name));
+      if (!object) {
+        issues.push({
+          kind: "missing-object",
+          objectName: vbo.name,
+          processName: process.processName,
+          locations: vbo.locations,
+        });
+        return;
+      }
+
+      const definedActions = new Set((object.actions as VBOActionDef[]).map(action => nameKey(action.name)));
+      const called = calledActions.get(nameKey(object.vboName)) || new Set<string>();
+      calledActions.set(nameKey(object.vboName), called);
+
+      vbo.actions.forEach(action => {
+        called.add(nameKey(action.name));
+        if (definedActions.has(nameKey(action.name))) {
+          resolvedCalls += action.usageCount;
+        } else {
+          issues.push({
+            kind: "missing-action",
+            objectName: object.vboName,
+            actionName: action.name,
+            processName: process.processName,
+            locations: action.locations,
+          });
+        }
+      });
+    });
+  });
+
+  objects.forEach(object => {
+    const called = calledActions.get(nameKey(object.vboName));
+    (object.actions as VBOActionDef[])
+      .filter(action => action.published && !called?.has(nameKey(action.name)))
+      .forEach(action => {
+        issues.push({
+          kind: "unused-action",
+          objectName: object.vboName,
+          actionName: action.name,
+          locations: [],
+        });
+      });
+  });
+
+  return { resolvedCalls, issues };
+}
@@ -0,0 +1,322 @@
+import type {
+  DependencyChange,
+  DiffChange,
+  ElementChange,
+  FieldChange,
+  PageChange,
+  ProcessDiff,
+  StageChange,
+  VBOElement,
+} from "@shared/schema";
+import { getPages } from "./pages";
+import { extractDependencies } from "./process";
+import { extractVBOElements } from "./vbo";
+import { nameKey } from "./dependencies";
+
+// Layout-only XML that changes whenever someone drags a stage or scrolls a page
+const NOISE = new Set([
+  "display", "displayx", "displayy", "displaywidth", "displayheight", "font", "distance",
+  "view", "camerax", "cameray", "zoom", "subsheetid", "groupid", "stageid",
+]);
+
+const LINK_FIELDS = new Set(["onsuccess", "ontrue", "onfalse"]);
+const DATA_FIELDS = new Set(["datatype", "initialvalue", "private", "exposure", "alwaysinit", "collectioninfo"]);
+// Empty elements whose presence is the value, e.g. <private/>
+const FLAG_FIELDS = new Set(["private", "alwaysinit", "loginhibit"]);
+
+interface StageEntry {
+  stage: any;
+  page: string;
+}
+
+// Structural diff of two versions of the same process or object, taking the
+// parsed <process> elements. Stages are matched by stage ID first and then by
+// page, name and type, so a stage deleted and re-created under the same name
+// shows as modified rather than removed and added. Links are compared by the
+// name of the stage they point to.
+export function diffProcesses(before: any, after: any, kind: ProcessDiff["kind"]): ProcessDiff {
+  const stages = diffStages(before, after);
+  const pages = diffPages(before, after);
+
+  return {
+    kind,
+    oldName: before.$?.name || "Unknown",
+    newName: after.$?.name || "Unknown",
+    properties: diffFields(flattenAttributes(before), flattenAttributes(after)),
+    pages,
+    stages,
+    dependencies: diffDependencies(before, after),
+    elements: diffElements(extractVBOElements(before.appdef || []), extractVBOElements(after.appdef || [])),
+    summary: {
+      added: stages.filter(stage => stage.change === "added").length,
+      removed: stages.filter(stage => stage.change === "removed").length,
+      modified: stages.filter(stage => stage.change === "modified").length,
+    },
+  };
+}
+
+// True when a diff found nothing at all, e.g. to leave an unchanged item out of a release diff
+export function isUnchanged(diff: ProcessDiff): boolean {
+  return diff.properties.length === 0 && diff.pages.length === 0 && diff.stages.length === 0 &&
+    diff.dependencies.length === 0 && diff.elements.length === 0;
+}
+
+function diffStages(before: any, after: any): StageChange[] {
+  const oldStages = stageEntries(before);
+  const newStages = stageEntries(after);
+  const oldNames = stageNames(before);
+  const newNames = stageNames(after);
+  const oldElements = elementPaths(before);
+  const newElements = elementPaths(after);
+
+  const changes: StageChange[] = [];
+  const unmatchedOld = new Map<string, StageEntry>(oldStages.map(entry => [entry.stage.$.stageid, entry]));
+  const pairs: { before: StageEntry; after: StageEntry; matchedBy: "id" | "name" }[] = [];
+  const unmatchedNew: StageEntry[] = [];
+
+  newStages.forEach(entry => {
+    const match = unmatchedOld.get(entry.stage.$.stageid);
+    if (match) {
+      unmatchedOld.delete(entry.stage.$.stageid);
+      pairs.push({ before: match, after: entry, matchedBy: "id" });
+    } else {
+      unmatchedNew.push(entry);
+    }
+  });
+
+  // Fall back to page, name and type for stages that were re-created
+  const byName = new Map<string, StageEntry[]>();
+  unmatchedOld.forEach(entry => {
+    const key = stageKey(entry);
+    byName.set(key, [...(byName.get(key) || []), entry]);
+  });
+  unmatchedNew.forEach(entry => {
+    const match = byName.get(stageKey(entry))?.shift();
+    if (match) {
+      unmatchedOld.delete(match.stage.$.stageid);
+      pairs.push({ before: match, after: entry, matchedBy: "name" });
+    } else {
+      changes.push(stageChange("added", entry, []));
+    }
+  });
+  unmatchedOld.forEach(entry => changes.push(stageChange("removed", entry, [])));
+
+  pairs.forEach(pair => {
+    const fieldChanges = diffFields(
+      flattenStage(pair.before, oldNames, oldElements),
+      flattenStage(pair.after, newNames, newElements),
+    );
+    if (fieldChanges.length > 0) {
+      changes.push({ ...stageChange("modified", pair.after, fieldChanges), matchedBy: pair.matchedBy });
+    }
+  });
+
+  return changes.sort((a, b) => a.page.localeCompare(b.page) || a.stageName.localeCompare(b.stageName));
+}
+
+function diffPages(before: any, after: any): PageChange[] {
+  const oldPages = new Map<string, any>(getPages(before).filter(page => page.subsheet).map(page => [nameKey(page.name), page]));
+  const changes: PageChange[] = [];
+
+  getPages(after).filter(page => page.subsheet).forEach(page => {
+    const match = oldPages.get(nameKey(page.name));
+    oldPages.delete(nameKey(page.name));
+    if (!match) {
+      changes.push({ change: "added", name: page.name, changes: [] });
+      return;
+    }
+    const fieldChanges = diffFields(flattenAttributes(match.subsheet), flattenAttributes(page.subsheet));
+    if (fieldChanges.length > 0) changes.push({ change: "modified", name: page.name, changes: fieldChanges });
+  });
+  oldPages.forEach(page => changes.push({ change: "removed", name: page.name, changes: [] }));
+
+  return changes;
+}
+
+function diffDependencies(before: any, after: any): DependencyChange[] {
+  const actionsByObject = (process: any) => new Map(
+    extractDependencies(process).map(vbo => [vbo.name, new Set(vbo.actions.map(action => action.name))])
+  );
+  const oldObjects = actionsByObject(before);
+  const newObjects = actionsByObject(after);
+  const changes: DependencyChange[] = [];
+
+  newObjects.forEach((actions, objectName) => {
+    const oldActions = oldObjects.get(objectName);
+    if (!oldActions) {
+      changes.push({ change: "added", objectName, addedActions: Array.from(actions), removedActions: [] });
+      return;
+    }
+    const addedActions = Array.from(actions).filter(action => !oldActions.has(action));
+    const removedActions = Array.from(oldActions).filter(action => !actions.has(action));
+    if (addedActions.length > 0 || removedActions.length > 0) {
+      changes.push({ change: "modified", objectName, addedActions, removedActions });
+    }
+  });
+  oldObjects.forEach((actions, objectName) => {
+    if (!newObjects.has(objectName)) {
+      changes.push({ change: "removed", objectName, addedActions: [], removedActions: Array.from(actions) });
+    }
+  });
+
+  return changes;
+}
+
+// Application Modeller elements, matched by element ID and then by path
+function diffElements(oldElements: VBOElement[], newElements: VBOElement[]): ElementChange[] {
+  const unmatchedOld = new Map(oldElements.map(element => [element.id, element]));
+  const changes: ElementChange[] = [];
+  const pairs: [VBOElement, VBOElement][] = [];
+  const unmatchedNew: VBOElement[] = [];
+
+  newElements.forEach(element => {
+    const match = unmatchedOld.get(element.id);
+    if (match) {
+      unmatchedOld.delete(element.id);
+      pairs.push([match, element]);
+    } else {
+      unmatchedNew.push(element);
+    }
+  });
+  unmatchedNew.forEach(element => {
+    const match = Array.from(unmatchedOld.values()).find(old => old.path === element.path);
+    if (match) {
+      unmatchedOld.delete(match.id);
+      pairs.push([match, element]);
+    } else {
+      changes.push({ change: "added", elementId: element.id, name: element.name, path: element.path, changes: [] });
+    }
+  });
+  unmatchedOld.forEach(element => {
+    changes.push({ change: "removed", elementId: element.id, name: element.name, path: element.path, changes: [] });
+  });
+
+  pairs.forEach(([before, after]) => {
+    const fieldChanges = diffFields(flattenElement(before), flattenElement(after));
+    if (fieldChanges.length > 0) {
+      changes.push({ change: "modified", elementId: after.id, name: after.name, path: after.path, changes: fieldChanges });
+    }
+  });
+
+  return changes;
+}
+
+function diffFields(before: Map<string, string>, after: Map<string, string>): FieldChange[] {
+  const fields = Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())]));
+  return fields
+    .filter(field => (before.get(field) ?? "") !== (after.get(field) ?? ""))
+    .map(field => ({
+      field,
+      category: fieldCategory(field),
+      before: before.get(field),
+      after: after.get(field),
+    }));
+}
+
+function fieldCategory(field: string): FieldChange["category"] {
+  const segments = field.split(/[.@]/).map(segment => segment.replace(/\[.*\]$/, ""));
+  const last = segments[segments.length - 1];
+  if (LINK_FIELDS.has(last)) return "link";
+  if (field.endsWith("element@id")) return "element";
+  if (DATA_FIELDS.has(segments[0])) return "data";
+  if (["expr", "expression", "condition", "code", "stage"].includes(last)) return "expression";
+  if (field.startsWith("attribute ")) return "element";
+  return "property";
+}
+
+// Flattens a stage into field path -> value, e.g. `inputs.input[Name]@expr`,
+// with link targets and element references replaced by names
+function flattenStage(entry: StageEntry, stageNames: Map<string, string>, elementPaths: Map<string, string>): Map<string, string> {
+  const fields = new Map<string, string>([["page", entry.page]]);
+  flattenNode(entry.stage, "", fields);
+
+  fields.forEach((value, field) => {
+    const category = fieldCategory(field);
+    if (category === "link") fields.set(field, stageNames.get(value) || value);
+    if (category === "element") fields.set(field, elementPaths.get(value) || value);
+  });
+  return fields;
+}
+
+function flattenAttributes(node: any): Map<string, string> {
+  const fields = new Map<string, string>();
+  Object.entries(node?.$ || {}).forEach(([name, value]) => {
+    if (!NOISE.has(name) && !name.endsWith("id")) fields.set(name, String(value));
+  });
+  return fields;
+}
+
+function flattenElement(element: VBOElement): Map<string, string> {
+  const fields = new Map<string, string>([
+    ["name", element.name],
+    ["type", element.type],
+    ["path", element.path],
+  ]);
+  Object.entries(element.attributes || {}).forEach(([name, attribute]: [string, any]) => {
+    fields.set(`attribute ${name}`, `${attribute.value ?? ""}${attribute.inuse ? " (in use)" : ""}`);
+  });
+  return fields;
+}
+
+function flattenNode(node: any, path: string, fields: Map<string, string>, key = ""): void {
+  if (typeof node === "string") {
+    fields.set(path, normalizeText(node) || (FLAG_FIELDS.has(key) ? "true" : ""));
+    return;
+  }
+
+  Object.entries(node.$ || {}).forEach(([name, value]) => {
+    if (!NOISE.has(name)) fields.set(path ? `${path}@${name}` : name, String(value));
+  });
+  if (typeof node._ === "string") fields.set(path, normalizeText(node._));
+
+  Object.entries(node).forEach(([key, children]) => {
+    if (key === "$" || key === "_" || NOISE.has(key) || !Array.isArray(children)) return;
+    children.forEach((child: any, index: number) => {
+      const label = childLabel(child, children.length > 1);
+      const suffix = label !== undefined ? `[${label}]` : children.length > 1 ? `[${index}]` : "";
+      flattenNode(child ?? "", path ? `${path}.${key}${suffix}` : `${key}${suffix}`, fields, key);
+    });
+  });
+}
+
+// Line endings depend on the tool that saved the file
+function normalizeText(text: string): string {
+  return text.replace(/\r\n/g, "\n").trim();
+}
+
+// Repeated children such as inputs, choices and arguments are keyed by name
+// (or, for Navigate arguments, by id) so that reordering them is not reported
+// as a change
+function childLabel(child: any, repeated: boolean): string | undefined {
+  if (!child || typeof child !== "object") return undefined;
+  if (child.$?.name) return child.$.name;
+  const name = child.name?.[0] ?? (repeated ? child.id?.[0] : undefined);
+  return typeof name === "string" ? name : undefined;
+}
+
+function stageEntries(process: any): StageEntry[] {
+  return getPages(process).flatMap(page => page.stages.map(stage => ({ stage, page: page.name })));
+}
+
+function stageNames(process: any): Map<string, string> {
+  return new Map((process.stage || []).map((stage: any) => [stage.$.stageid, stage.$.name]));
+}
+
+function elementPaths(process: any): Map<string, string> {
+  return new Map(extractVBOElements(process.appdef || []).map(element => [element.id, element.path]));
+}
+
+function stageKey(entry: StageEntry): string {
+  return `${nameKey(entry.page)}|${nameKey(entry.stage.$.name || "")}|${entry.stage.$.type}`;
+}
+
+function stageChange(change: DiffChange, entry: StageEntry, changes: FieldChange[]): StageChange {
+  return {
+    change,
+    stageId: entry.stage.$.stageid || "",
+    stageName: entry.stage.$.name || "",
+    stageType: entry.stage.$.type || "",
+    page: entry.page,
+    changes,
+  };
+}
@@ -0,0 +1,65 @@
+import type { ElementUsage, UnusedElement, VBOElement } from "@shared/schema";
+import { getPages } from "./pages";
+
+// Stage types that act on Application Modeller elements
+const ELEMENT_STAGE_TYPES = new Set(["Read", "Write", "Navigate", "WaitStart"]);
+
+// Finds every reference from a Read, Write, Navigate or WaitStart stage to an
+// Application Modeller element. Read, Write and Navigate stages hold one
+// <step> per element; Wait stages hold one <choice> per condition.
+export function extractElementUsages(process: any): ElementUsage[] {
+  const usages: ElementUsage[] = [];
+
+  getPages(process).forEach(page => {
+    page.stages
+      .filter((stage: any) => ELEMENT_STAGE_TYPES.has(stage.$?.type))
+      .forEach((stage: any) => {
+        const references = stage.$.type === "WaitStart"
+          ? (stage.choices?.[0]?.choice || []).map((choice: any) => ({
+              elementId: choice.element?.[0]?.$?.id,
+              operation: choice.condition?.[0]?.id?.[0],
+            }))
+          : (stage.step || []).map((step: any) => ({
+              elementId: step.element?.[0]?.$?.id,
+              operation: step.action?.[0]?.id?.[0],
+            }));
+
+        references
+          .filter((reference: any) => reference.elementId)
+          .forEach((reference: any) => {
+            usages.push({
+              elementId: reference.elementId,
+              stageId: stage.$.stageid || "",
+              stageName: stage.$.name || "",
+              stageType: stage.$.type,
+              page: page.name,
+              operation: reference.operation || undefined,
+            });
+          });
+      });
+  });
+
+  return usages;
+}
+
+// Attaches the stages using each element to its entry and lists the elements
+// no stage refers to. Groups only organise the tree, so they are never
+// reported as unused.
+export function mapElementUsage(elements: VBOElement[], usages: ElementUsage[]): UnusedElement[] {
+  const usagesByElement = new Map<string, ElementUsage[]>();
+  usages.forEach(usage => {
+    usagesByElement.set(usage.elementId, [...(usagesByElement.get(usage.elementId) || []), usage]);
+  });
+
+  const unused: UnusedElement[] = [];
+  elements.forEach(element => {
+    if (element.type === "group") return;
+
+    element.usedBy = usagesByElement.get(element.id) || [];
+    if (element.usedBy.length === 0) {
+      unused.push({ id: element.id, name: element.name, type: element.type, path: element.path });
+    }
+  });
+
+  return unused;
+}
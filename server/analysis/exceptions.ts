@@ -0,0 +1,140 @@
+import type { ExceptionCoverage, ExceptionFinding, FlowNode, UnprotectedStage } from "@shared/schema";
+import { getPages } from "./pages";
+import { stageEdges, stageNode } from "./flow-graph";
+
+// Stages that can raise an exception while the process runs. Layout, data and
+// flow-control stages (Start, End, Anchor, the closing half of a pair and the
+// exception stages themselves) are left out of the coverage figures.
+const NON_WORK_TYPES = new Set([
+  "Data", "Collection", "Block", "SubSheetInfo", "ProcessInfo", "Note",
+  "Start", "End", "Anchor", "Recover", "Resume", "Exception",
+  "LoopEnd", "ChoiceEnd", "WaitEnd",
+]);
+
+// Works out which stages of each page an exception handler protects. A Recover
+// stage inside a Block catches exceptions raised by the stages in that Block;
+// a Recover outside every Block catches anything raised on the page.
+export function analyzeExceptionHandling(process: any): ExceptionCoverage {
+  const pages: ExceptionCoverage["pages"] = [];
+  const unprotectedStages: UnprotectedStage[] = [];
+  const findings: ExceptionFinding[] = [];
+
+  getPages(process).forEach(page => {
+    const nodes = page.stages.map(stageNode);
+    const blocks = nodes.filter(node => node.type === "Block");
+    const recovers = nodes.filter(node => node.type === "Recover");
+
+    const report = (kind: ExceptionFinding["kind"], stage: any, detail?: string) => {
+      findings.push({
+        kind,
+        stageId: stage.$.stageid,
+        stageName: stage.$.name || "",
+        stageType: stage.$.type || "Unknown",
+        page: page.name,
+        detail,
+      });
+    };
+
+    const pageLevelRecovery = recovers.some(recover => !blocks.some(block => contains(block, recover)));
+    const protectedBlocks = blocks.filter(block => recovers.some(recover => contains(block, recover)));
+
+    let stageCount = 0;
+    let protectedCount = 0;
+    page.stages.forEach((stage: any, index: number) => {
+      const type = stage.$.type;
+      if (NON_WORK_TYPES.has(type)) return;
+      stageCount++;
+
+      const node = nodes[index];
+      if (pageLevelRecovery || protectedBlocks.some(block => contains(block, node))) {
+        protectedCount++;
+        return;
+      }
+
+      unprotectedStages.push({
+        stageId: node.id,
+        stageName: node.name,
+        stageType: node.type,
+        page: page.name,
+      });
+      if (type === "Action" && recovers.length === 0) {
+        report("unprotected-action", stage, "The page has no Recover stage");
+      }
+    });
+
+    const rethrows = new Set<any>();
+    page.stages
+      .filter((stage: any) => stage.$.type === "Recover")
+      .forEach((stage: any) => {
+        const path = recoveryPath(stage, page.stages);
+        if (!path.some(next => next.$.type === "Resume")) {
+          report("recover-without-resume", stage, "The exception is never cleared by a Resume stage");
+        }
+        path.filter(next => next.$.type === "Exception").forEach(next => rethrows.add(next));
+      });
+
+    // An Exception stage on a recovery path re-throws. Unless it preserves the
+    // current exception, the original detail is lost when it gives none of its own.
+    rethrows.forEach(stage => {
+      const exception = stage.exception?.[0]?.$ || {};
+      if (exception.usecurrent !== "yes" && !exception.detail?.trim()) {
+        report("exception-without-detail", stage, exception.type ? `Type "${exception.type}"` : "No type or detail");
+      }
+    });
+
+    pages.push({
+      subsheetId: page.id,
+      name: page.name,
+      stageCount,
+      protectedCount,
+      coverage: percentage(protectedCount, stageCount),
+      hasRecovery: recovers.length > 0,
+    });
+  });
+
+  const stageCount = pages.reduce((sum, page) => sum + page.stageCount, 0);
+  const protectedCount = pages.reduce((sum, page) => sum + page.protectedCount, 0);
+
+  return {
+    coverage: percentage(protectedCount, stageCount),
+    pages,
+    unprotectedStages,
+    findings,
+  };
+}
+
+// Blocks are positioned like every other node, by their centre
+function contains(block: FlowNode, node: FlowNode): boolean {
+  return (
+    node.x >= block.x - block.width / 2 &&
+    node.x <= block.x + block.width / 2 &&
+    node.y >= block.y - block.height / 2 &&
+    node.y <= block.y + block.height / 2
+  );
+}
+
+// The stages reached from a Recover stage before the exception is cleared: the
+// walk stops at each Resume stage, which is included
+function recoveryPath(recover: any, stages: any[]): any[] {
+  const stagesById = new Map<string, any>();
+  stages.forEach(stage => stagesById.set(stage.$.stageid, stage));
+
+  const visited = new Set<string>([recover.$.stageid]);
+  const path: any[] = [];
+  const queue = [recover];
+  while (queue.length > 0) {
+    const stage = queue.shift();
+    for (const edge of stageEdges(stage)) {
+      const next = stagesById.get(edge.to);
+      if (!next || visited.has(edge.to)) continue;
+      visited.add(edge.to);
+      path.push(next);
+      if (next.$.type !== "Resume") queue.push(next);
+    }
+  }
+  return path;
+}
+
+function percentage(part: number, total: number): number {
+  return total === 0 ? 100 : Math.round((part / total) * 1000) / 10;
+}
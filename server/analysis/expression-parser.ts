@@ -0,0 +1,212 @@
+// Parser for the Blue Prism expression language used by Calculation, Decision
+// and Choice stages and by stage input mappings, e.g.
+//   Len([Name]) > 0 AND [Invoices.Amount] * 2 <> 10
+//
+// Operator precedence from loosest to tightest:
+//   OR, AND, comparisons (= <> < > <= >=), &, + -, * / MOD, ^, unary -
+
+export type BinaryOperator =
+  | "OR" | "AND"
+  | "=" | "<>" | "<" | ">" | "<=" | ">="
+  | "&" | "+" | "-" | "*" | "/" | "MOD" | "^";
+
+export type ExpressionNode =
+  | { kind: "number"; value: number; position: number }
+  | { kind: "text"; value: string; position: number }
+  | { kind: "flag"; value: boolean; position: number }
+  | { kind: "reference"; name: string; position: number }
+  | { kind: "unary"; operator: "-"; operand: ExpressionNode; position: number }
+  | { kind: "binary"; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { kind: "call"; name: string; args: ExpressionNode[]; position: number };
+
+export class ExpressionSyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = "ExpressionSyntaxError";
+  }
+}
+
+type Token =
+  | { type: "number"; value: number; position: number }
+  | { type: "text"; value: string; position: number }
+  | { type: "reference"; value: string; position: number }
+  | { type: "identifier"; value: string; position: number }
+  | { type: "operator"; value: string; position: number }
+  | { type: "end"; position: number };
+
+// Operators grouped by precedence level, loosest first
+const PRECEDENCE: BinaryOperator[][] = [
+  ["OR"],
+  ["AND"],
+  ["=", "<>", "<", ">", "<=", ">="],
+  ["&"],
+  ["+", "-"],
+  ["*", "/", "MOD"],
+  ["^"],
+];
+
+const WORD_OPERATORS = new Set(["AND", "OR", "MOD"]);
+
+// Parses a complete expression. Throws ExpressionSyntaxError when the text is
+// not a valid expression; an empty expression is also an error.
+export function parseExpression(expression: string): ExpressionNode {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+
+  const isOperator = (token: Token, value: string) =>
+    (token.type === "operator" && token.value === value) ||
+    (token.type === "identifier" && WORD_OPERATORS.has(value) && token.value.toUpperCase() === value);
+
+  const expect = (value: string) => {
+    const token = next();
+    if (!isOperator(token, value)) throw new ExpressionSyntaxError(`Expected "${value}"`, token.position);
+  };
+
+  const parseLevel = (level: number): ExpressionNode => {
+    if (level === PRECEDENCE.length) return parseUnary();
+
+    let left = parseLevel(level + 1);
+    for (;;) {
+      const token = peek();
+      const operator = PRECEDENCE[level].find(candidate => isOperator(token, candidate));
+      if (!operator) return left;
+      next();
+      // ^ is right-associative, everything else associates to the left
+      const right = operator === "^" ? parseLevel(level) : parseLevel(level + 1);
+      left = { kind: "binary", operator, left, right, position: token.position };
+    }
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    const token = peek();
+    if (isOperator(token, "-")) {
+      next();
+      return { kind: "unary", operator: "-", operand: parseUnary(), position: token.position };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+    switch (token.type) {
+      case "number":
+        return { kind: "number", value: token.value, position: token.position };
+      case "text":
+        return { kind: "text", value: token.value, position: token.position };
+      case "reference":
+        return { kind: "reference", name: token.value, position: token.position };
+      case "identifier": {
+        const upper = token.value.toUpperCase();
+        if (upper === "TRUE" || upper === "FALSE") {
+          return { kind: "flag", value: upper === "TRUE", position: token.position };
+        }
+        if (!isOperator(peek(), "(")) {
+          throw new ExpressionSyntaxError(`Unexpected name "${token.value}"; data items must be written as [${token.value}]`, token.position);
+        }
+        next();
+        const args: ExpressionNode[] = [];
+        if (!isOperator(peek(), ")")) {
+          args.push(parseLevel(0));
+          while (isOperator(peek(), ",")) {
+            next();
+            args.push(parseLevel(0));
+          }
+        }
+        expect(")");
+        return { kind: "call", name: token.value, args, position: token.position };
+      }
+      case "operator":
+        if (token.value === "(") {
+          const inner = parseLevel(0);
+          expect(")");
+          return inner;
+        }
+        throw new ExpressionSyntaxError(`Unexpected "${token.value}"`, token.position);
+      case "end":
+        throw new ExpressionSyntaxError("Unexpected end of expression", token.position);
+    }
+  };
+
+  const root = parseLevel(0);
+  const trailing = peek();
+  if (trailing.type !== "end") {
+    throw new ExpressionSyntaxError("Unexpected text after the end of the expression", trailing.position);
+  }
+  return root;
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < expression.length) {
+    const char = expression[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    const start = position;
+
+    if (char === '"') {
+      // Strings escape a double quote by doubling it
+      let value = "";
+      position++;
+      for (;;) {
+        if (position >= expression.length) throw new ExpressionSyntaxError("Unterminated text literal", start);
+        if (expression[position] === '"') {
+          if (expression[position + 1] === '"') {
+            value += '"';
+            position += 2;
+            continue;
+          }
+          position++;
+          break;
+        }
+        value += expression[position++];
+      }
+      tokens.push({ type: "text", value, position: start });
+      continue;
+    }
+
+    if (char === "[") {
+      const end = expression.indexOf("]", position);
+      if (end === -1) throw new ExpressionSyntaxError("Missing closing ]", start);
+      const name = expression.slice(position + 1, end).trim();
+      if (!name) throw new ExpressionSyntaxError("Empty data item reference", start);
+      tokens.push({ type: "reference", value: name, position: start });
+      position = end + 1;
+      continue;
+    }
+
+    const number = expression.slice(position).match(/^\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ type: "number", value: Number(number[0]), position: start });
+      position += number[0].length;
+      continue;
+    }
+
+    const identifier = expression.slice(position).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (identifier) {
+      tokens.push({ type: "identifier", value: identifier[0], position: start });
+      position += identifier[0].length;
+      continue;
+    }
+
+    const operator = expression.slice(position).match(/^(<>|<=|>=|[-+*/^&=<>(),])/);
+    if (operator) {
+      tokens.push({ type: "operator", value: operator[0], position: start });
+      position += operator[0].length;
+      continue;
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected character "${char}"`, start);
+  }
+
+  tokens.push({ type: "end", position });
+  return tokens;
+}
@@ -0,0 +1,307 @@
+import type { DataItem, ExpressionIssue } from "@shared/schema";
+import { getPages } from "./pages";
+import { resolveDataItem } from "./data-items";
+import { parseExpression, ExpressionSyntaxError, type ExpressionNode } from "./expression-parser";
+
+// Blue Prism data types plus "unknown" for values whose type cannot be told
+// statically (e.g. fields of a collection without a defined structure)
+type ValueType = string;
+
+interface BuiltinFunction {
+  // Expected argument types; "any" accepts everything. Trailing arguments
+  // beyond `minArgs` are optional.
+  params: ValueType[];
+  minArgs?: number;
+  returns: ValueType;
+}
+
+// The built-in functions of the expression editor, keyed by lower-case name
+const BUILTIN_FUNCTIONS: Record<string, BuiltinFunction> = {
+  // Text
+  len: { params: ["text"], returns: "number" },
+  left: { params: ["text", "number"], returns: "text" },
+  right: { params: ["text", "number"], returns: "text" },
+  mid: { params: ["text", "number", "number"], returns: "text" },
+  instr: { params: ["text", "text"], returns: "number" },
+  lower: { params: ["text"], returns: "text" },
+  upper: { params: ["text"], returns: "text" },
+  trim: { params: ["text"], returns: "text" },
+  trimstart: { params: ["text"], returns: "text" },
+  trimend: { params: ["text"], returns: "text" },
+  startswith: { params: ["text", "text"], returns: "flag" },
+  endswith: { params: ["text", "text"], returns: "flag" },
+  replace: { params: ["text", "text", "text"], returns: "text" },
+  padleft: { params: ["text", "number", "text"], minArgs: 2, returns: "text" },
+  padright: { params: ["text", "number", "text"], minArgs: 2, returns: "text" },
+  chr: { params: ["number"], returns: "text" },
+  chrw: { params: ["number"], returns: "text" },
+  newline: { params: [], returns: "text" },
+  // Conversion
+  tonumber: { params: ["any"], returns: "number" },
+  todate: { params: ["any"], returns: "date" },
+  todatetime: { params: ["any"], returns: "datetime" },
+  totime: { params: ["any"], returns: "time" },
+  isnumber: { params: ["any"], returns: "flag" },
+  isdate: { params: ["any"], returns: "flag" },
+  isdatetime: { params: ["any"], returns: "flag" },
+  istime: { params: ["any"], returns: "flag" },
+  istimespan: { params: ["any"], returns: "flag" },
+  isflag: { params: ["any"], returns: "flag" },
+  // Number
+  round: { params: ["number", "number"], minArgs: 1, returns: "number" },
+  roundup: { params: ["number", "number"], minArgs: 1, returns: "number" },
+  rounddown: { params: ["number", "number"], minArgs: 1, returns: "number" },
+  decpad: { params: ["number", "number"], returns: "text" },
+  sqrt: { params: ["number"], returns: "number" },
+  log: { params: ["number", "number"], minArgs: 1, returns: "number" },
+  exp: { params: ["number"], returns: "number" },
+  // Date and time
+  today: { params: [], returns: "date" },
+  now: { params: [], returns: "datetime" },
+  localtime: { params: [], returns: "time" },
+  utctime: { params: [], returns: "datetime" },
+  dateadd: { params: ["number", "number", "any"], returns: "date" },
+  datediff: { params: ["number", "any", "any"], returns: "number" },
+  adddays: { params: ["any", "number"], returns: "date" },
+  addmonths: { params: ["any", "number"], returns: "date" },
+  makedate: { params: ["number", "number", "number"], returns: "date" },
+  makedatetime: { params: ["number", "number", "number", "number", "number", "number", "flag"], minArgs: 6, returns: "datetime" },
+  maketime: { params: ["number", "number", "number"], returns: "time" },
+  maketimespan: { params: ["number", "number", "number", "number"], returns: "timespan" },
+  formatdate: { params: ["any", "text"], returns: "text" },
+  formatdatetime: { params: ["any", "text"], returns: "text" },
+  formatutcdatetime: { params: ["any", "text"], returns: "text" },
+  localtoutc: { params: ["datetime"], returns: "datetime" },
+  utctolocal: { params: ["datetime"], returns: "datetime" },
+  // Logic
+  not: { params: ["flag"], returns: "flag" },
+  // Exceptions, only meaningful after a Recover stage
+  exceptiontype: { params: [], returns: "text" },
+  exceptiondetail: { params: [], returns: "text" },
+  exceptionstage: { params: [], returns: "text" },
+  // Environment
+  getresourcename: { params: [], returns: "text" },
+  getusername: { params: [], returns: "text" },
+};
+
+const DATE_TYPES = new Set(["date", "datetime", "time", "timespan"]);
+const TEXT_TYPES = new Set(["text", "password"]);
+// Types that cannot appear in any operator
+const OPAQUE_TYPES = new Set(["collection", "binary", "image"]);
+
+// Parses the expressions of every Calculation, MultipleCalculation and
+// Decision stage and checks them against the data catalogue.
+export function checkExpressions(process: any, dataItems: DataItem[]): ExpressionIssue[] {
+  const issues: ExpressionIssue[] = [];
+
+  getPages(process).forEach(page => {
+    page.stages.forEach((stage: any) => {
+      const type = stage.$?.type;
+      const report = (kind: ExpressionIssue["kind"], expression: string, message: string) => {
+        issues.push({
+          kind,
+          stageId: stage.$.stageid || "",
+          stageName: stage.$.name || "",
+          stageType: type,
+          page: page.name,
+          expression,
+          message,
+        });
+      };
+
+      if (type === "Decision") {
+        const expression = stage.decision?.[0]?.$?.expression || "";
+        const resultType = checkExpression(expression, page.name, dataItems, report);
+        if (resultType && resultType !== "unknown" && resultType !== "flag") {
+          report("type-mismatch", expression, `A Decision must evaluate to a flag, not ${resultType}`);
+        }
+      } else if (type === "Calculation" || type === "MultipleCalculation") {
+        const calculations = type === "Calculation" ? stage.calculation || [] : stage.steps?.[0]?.calculation || [];
+        calculations.forEach((calculation: any) => {
+          const expression = calculation.$?.expression || "";
+          const target = calculation.$?.stage || "";
+          const resultType = checkExpression(expression, page.name, dataItems, report);
+
+          if (!target) {
+            report("missing-item", expression, "No data item is set to store the result");
+            return;
+          }
+          const resolved = resolveDataItem(dataItems, target, page.name);
+          if (!resolved) {
+            report("missing-item", expression, `Result is stored in [${target}], which does not exist`);
+            return;
+          }
+          const targetType = referenceType(resolved.item, resolved.field);
+          if (resultType && !canStore(targetType, resultType)) {
+            report("type-mismatch", expression, `A ${resultType} result cannot be stored in [${target}] (${targetType})`);
+          }
+        });
+      }
+    });
+  });
+
+  return issues;
+}
+
+// Returns the expression's result type, or undefined when it does not parse
+function checkExpression(
+  expression: string,
+  page: string,
+  dataItems: DataItem[],
+  report: (kind: ExpressionIssue["kind"], expression: string, message: string) => void,
+): ValueType | undefined {
+  if (!expression.trim()) {
+    report("syntax-error", expression, "Expression is empty");
+    return undefined;
+  }
+
+  let root: ExpressionNode;
+  try {
+    root = parseExpression(expression);
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) {
+      report("syntax-error", expression, error.message);
+      return undefined;
+    }
+    throw error;
+  }
+
+  const typeOf = (node: ExpressionNode): ValueType => {
+    switch (node.kind) {
+      case "number":
+        return "number";
+      case "text":
+        return "text";
+      case "flag":
+        return "flag";
+      case "reference": {
+        const resolved = resolveDataItem(dataItems, node.name, page);
+        if (!resolved || (resolved.field && resolved.item.kind !== "Collection")) {
+          report("missing-item", expression, `[${node.name}] does not exist`);
+          return "unknown";
+        }
+        const { item, field } = resolved;
+        if (field && item.fields?.length && !item.fields.some(f => f.name.toLowerCase() === field.toLowerCase())) {
+          report("missing-item", expression, `Collection [${item.name}] has no field "${field}"`);
+          return "unknown";
+        }
+        return referenceType(item, field);
+      }
+      case "unary": {
+        const operandType = typeOf(node.operand);
+        if (!isNumeric(operandType, node.operand)) {
+          report("type-mismatch", expression, `Cannot negate a ${operandType} value`);
+        }
+        return operandType === "unknown" ? "unknown" : operandType;
+      }
+      case "binary":
+        return binaryType(node.operator, node.left, node.right);
+      case "call": {
+        const argTypes = node.args.map(typeOf);
+        const fn = BUILTIN_FUNCTIONS[node.name.toLowerCase()];
+        if (!fn) {
+          report("unknown-function", expression, `${node.name}() is not a built-in function`);
+          return "unknown";
+        }
+        const minArgs = fn.minArgs ?? fn.params.length;
+        if (node.args.length < minArgs || node.args.length > fn.params.length) {
+          const expected = minArgs === fn.params.length ? `${minArgs}` : `${minArgs} to ${fn.params.length}`;
+          report("syntax-error", expression, `${node.name}() takes ${expected} argument(s), got ${node.args.length}`);
+        }
+        node.args.forEach((arg, index) => {
+          const expected = fn.params[index];
+          if (expected && !accepts(expected, argTypes[index], arg)) {
+            report("type-mismatch", expression, `Argument ${index + 1} of ${node.name}() should be ${expected}, not ${argTypes[index]}`);
+          }
+        });
+        return fn.returns;
+      }
+    }
+  };
+
+  const binaryType = (operator: string, left: ExpressionNode, right: ExpressionNode): ValueType => {
+    const leftType = typeOf(left);
+    const rightType = typeOf(right);
+    const operands: [ValueType, ExpressionNode][] = [[leftType, left], [rightType, right]];
+
+    if (operator === "AND" || operator === "OR") {
+      operands.forEach(([type]) => {
+        if (type !== "unknown" && type !== "flag") {
+          report("type-mismatch", expression, `${operator} needs flag values, not ${type}`);
+        }
+      });
+      return "flag";
+    }
+
+    if (operator === "&") {
+      operands.forEach(([type]) => {
+        if (OPAQUE_TYPES.has(type)) report("type-mismatch", expression, `Cannot join a ${type} as text`);
+      });
+      return "text";
+    }
+
+    if (["=", "<>", "<", ">", "<=", ">="].includes(operator)) {
+      operands.forEach(([type]) => {
+        if (OPAQUE_TYPES.has(type)) report("type-mismatch", expression, `Cannot compare a ${type} value`);
+      });
+      if (isFlagMismatch(leftType, rightType)) {
+        report("type-mismatch", expression, `Cannot compare ${leftType} with ${rightType}`);
+      }
+      return "flag";
+    }
+
+    // Arithmetic; dates and times support + and - with each other and time spans
+    if (DATE_TYPES.has(leftType) || DATE_TYPES.has(rightType)) {
+      if (operator !== "+" && operator !== "-") {
+        report("type-mismatch", expression, `Cannot use ${operator} with ${DATE_TYPES.has(leftType) ? leftType : rightType} values`);
+      }
+      if (operator === "-" && DATE_TYPES.has(leftType) && leftType === rightType && leftType !== "timespan") return "timespan";
+      return DATE_TYPES.has(leftType) ? leftType : rightType;
+    }
+    operands.forEach(([type, node]) => {
+      if (!isNumeric(type, node)) report("type-mismatch", expression, `Cannot use ${operator} with a ${type} value`);
+    });
+    return "number";
+  };
+
+  return typeOf(root);
+}
+
+function referenceType(item: DataItem, field?: string): ValueType {
+  if (!field) return item.dataType;
+  const definition = item.fields?.find(f => f.name.toLowerCase() === field.toLowerCase());
+  return definition?.type || "unknown";
+}
+
+// Text is converted to a number at run time, so only text literals that are
+// obviously not numbers count as a mismatch
+function isNumeric(type: ValueType, node: ExpressionNode): boolean {
+  if (type === "unknown" || type === "number") return true;
+  if (node.kind === "text") return node.value.trim() !== "" && !isNaN(Number(node.value));
+  return TEXT_TYPES.has(type);
+}
+
+function isFlagMismatch(leftType: ValueType, rightType: ValueType): boolean {
+  if (leftType === "unknown" || rightType === "unknown") return false;
+  return (leftType === "flag") !== (rightType === "flag") && !TEXT_TYPES.has(leftType) && !TEXT_TYPES.has(rightType);
+}
+
+function accepts(expected: ValueType, actual: ValueType, node: ExpressionNode): boolean {
+  if (expected === "any" || actual === "unknown") return !OPAQUE_TYPES.has(actual);
+  if (OPAQUE_TYPES.has(actual)) return false;
+  if (expected === "flag") return actual === "flag" || TEXT_TYPES.has(actual);
+  if (expected === "number") return actual !== "flag" && !DATE_TYPES.has(actual) && isNumeric(actual, node);
+  if (DATE_TYPES.has(expected)) return DATE_TYPES.has(actual) || TEXT_TYPES.has(actual);
+  // Anything but a collection converts to text
+  return true;
+}
+
+// Whether a value of `valueType` can be stored in a data item of `targetType`
+function canStore(targetType: ValueType, valueType: ValueType): boolean {
+  if (targetType === "unknown" || valueType === "unknown") return true;
+  if (OPAQUE_TYPES.has(targetType) || OPAQUE_TYPES.has(valueType)) return targetType === valueType;
+  if (TEXT_TYPES.has(targetType) || TEXT_TYPES.has(valueType)) return true;
+  if (targetType === "flag" || valueType === "flag") return targetType === valueType;
+  if (DATE_TYPES.has(targetType)) return DATE_TYPES.has(valueType);
+  return !DATE_TYPES.has(valueType);
+}
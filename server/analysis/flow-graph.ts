@@ -0,0 +1,74 @@
+import type { FlowEdge, FlowNode, FlowPage } from "@shared/schema";
+import { getPages } from "./pages";
+import { childText } from "./xml";
+
+// Stages without an explicit size are drawn at Blue Prism's default size
+const DEFAULT_WIDTH = 60;
+const DEFAULT_HEIGHT = 30;
+
+// Builds one directed graph per page from the stage links
+export function buildFlowGraph(process: any): FlowPage[] {
+  return getPages(process).map(page => ({
+    subsheetId: page.id,
+    name: page.name,
+    // The main page keeps its camera on the <process> element itself
+    view: readView(page.subsheet ? page.subsheet.view?.[0] : process.view?.[0]),
+    nodes: page.stages.map(stageNode),
+    edges: page.stages.flatMap(stageEdges),
+  }));
+}
+
+export function stageNode(stage: any): FlowNode {
+  // Newer exports use <display x y w h/>, older ones <displayx>, <displayy>, ...
+  const display = stage.display?.[0]?.$;
+  const type = stage.$.type || "Unknown";
+  const width = toNumber(display?.w ?? childText(stage, "displaywidth"), DEFAULT_WIDTH);
+  const height = toNumber(display?.h ?? childText(stage, "displayheight"), DEFAULT_HEIGHT);
+  // Stages are positioned by their centre, except Blocks which store their
+  // top-left corner; normalise Blocks so every node is centred
+  const offset = type === "Block" ? 0.5 : 0;
+  return {
+    id: stage.$.stageid,
+    name: stage.$.name || "",
+    type,
+    x: toNumber(display?.x ?? childText(stage, "displayx"), 0) + width * offset,
+    y: toNumber(display?.y ?? childText(stage, "displayy"), 0) + height * offset,
+    width,
+    height,
+  };
+}
+
+export function stageEdges(stage: any): FlowEdge[] {
+  const from = stage.$.stageid;
+  const edges: FlowEdge[] = [];
+
+  const link = (tag: string, kind: FlowEdge["kind"]) => {
+    const to = childText(stage, tag)?.trim();
+    if (to) edges.push({ from, to, kind });
+  };
+
+  link("onsuccess", "success");
+  link("ontrue", "true");
+  link("onfalse", "false");
+
+  // ChoiceStart and WaitStart stages link out once per choice
+  (stage.choices?.[0]?.choice || []).forEach((choice: any) => {
+    const to = childText(choice, "ontrue")?.trim() || childText(choice, "link")?.trim();
+    if (to) edges.push({ from, to, kind: "choice", label: childText(choice, "name")?.trim() });
+  });
+
+  return edges;
+}
+
+function readView(view: any): FlowPage["view"] {
+  return {
+    cameraX: toNumber(childText(view, "camerax"), 0),
+    cameraY: toNumber(childText(view, "cameray"), 0),
+    zoom: toNumber(childText(view, "zoom"), 1),
+  };
+}
+
+function toNumber(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined ? NaN : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
@@ -0,0 +1,222 @@
+import type {
+  ActionCall,
+  ImpactedCaller,
+  ImpactReport,
+  ImpactSeverity,
+  SignatureChange,
+  VBOActionDef,
+  VBOAnalysis,
+  VBOCallSite,
+} from "@shared/schema";
+import { nameKey } from "./dependencies";
+
+type Parameter = { name: string; type: string };
+
+// A where-used entry with the parameters its stage maps, when the stage could
+// still be found in the saved analysis
+export interface CallerStage {
+  callSite: VBOCallSite;
+  call?: ActionCall;
+}
+
+const SEVERITY_ORDER: ImpactSeverity[] = ["error", "warning", "info"];
+
+// Compares the published actions of two versions of an object. Actions are
+// matched by the id of their SubSheetInfo stage, which survives a rename, and
+// then by name. Actions that were never published cannot be called from a
+// process and are left out.
+export function diffActionSignatures(before: VBOAnalysis, after: VBOAnalysis): SignatureChange[] {
+  const changes: SignatureChange[] = [];
+  const beforeActions = (before.actions as VBOActionDef[]).filter(action => action.published !== false);
+  const afterActions = after.actions as VBOActionDef[];
+  const matched = new Set<VBOActionDef>();
+
+  beforeActions.forEach(action => {
+    const next = afterActions.find(candidate => !matched.has(candidate) && candidate.id === action.id)
+      || afterActions.find(candidate => !matched.has(candidate) && nameKey(candidate.name) === nameKey(action.name));
+
+    if (!next) {
+      changes.push({ kind: "action-removed", actionName: action.name });
+      return;
+    }
+    matched.add(next);
+
+    if (next.published === false) {
+      changes.push({ kind: "action-unpublished", actionName: action.name });
+      return;
+    }
+    if (nameKey(next.name) !== nameKey(action.name)) {
+      changes.push({ kind: "action-renamed", actionName: action.name, newActionName: next.name });
+    }
+
+    diffParameters(action.name, "input", action.inputs || [], next.inputs || [], changes);
+    diffParameters(action.name, "output", action.outputs || [], next.outputs || [], changes);
+  });
+
+  afterActions
+    .filter(action => !matched.has(action) && action.published !== false)
+    .forEach(action => changes.push({ kind: "action-added", actionName: action.name }));
+
+  return changes;
+}
+
+function diffParameters(
+  actionName: string,
+  direction: "input" | "output",
+  before: Parameter[],
+  after: Parameter[],
+  changes: SignatureChange[],
+) {
+  const afterByName = new Map(after.map(parameter => [nameKey(parameter.name), parameter]));
+  const beforeNames = new Set(before.map(parameter => nameKey(parameter.name)));
+
+  const removed = before.filter(parameter => !afterByName.has(nameKey(parameter.name)));
+  const added = after.filter(parameter => !beforeNames.has(nameKey(parameter.name)));
+
+  // A single parameter swapped for another of the same type is taken as a rename
+  if (removed.length === 1 && added.length === 1 && removed[0].type === added[0].type) {
+    changes.push({
+      kind: `${direction}-renamed`,
+      actionName,
+      parameterName: removed[0].name,
+      newParameterName: added[0].name,
+      oldType: removed[0].type,
+      newType: added[0].type,
+    });
+  } else {
+    removed.forEach(parameter => changes.push({
+      kind: `${direction}-removed`,
+      actionName,
+      parameterName: parameter.name,
+      oldType: parameter.type,
+    }));
+    added.forEach(parameter => changes.push({
+      kind: `${direction}-added`,
+      actionName,
+      parameterName: parameter.name,
+      newType: parameter.type,
+    }));
+  }
+
+  before.forEach(parameter => {
+    const next = afterByName.get(nameKey(parameter.name));
+    if (next && next.type !== parameter.type) {
+      changes.push({
+        kind: `${direction}-type-changed`,
+        actionName,
+        parameterName: parameter.name,
+        oldType: parameter.type,
+        newType: next.type,
+      });
+    }
+  });
+}
+
+// How a change affects one calling stage. Values the stage passes or stores
+// make a change breaking; parameters it leaves blank or ignores only need the
+// stage refreshed. Without the stage's mappings every parameter change is a
+// warning. Returns undefined when the stage is not affected.
+function assessChange(change: SignatureChange, call?: ActionCall): { severity: ImpactSeverity; message: string } | undefined {
+  const parameter = nameKey(change.parameterName || "");
+  const passes = !!call?.inputs.find(input => nameKey(input.name) === parameter)?.expr.trim();
+  const stores = !!call?.outputs.find(output => nameKey(output.name) === parameter)?.stage.trim();
+  const severity = (used: boolean, otherwise: ImpactSeverity): ImpactSeverity => !call ? "warning" : used ? "error" : otherwise;
+
+  switch (change.kind) {
+    case "action-removed":
+      return { severity: "error", message: `Action "${change.actionName}" no longer exists` };
+    case "action-unpublished":
+      return { severity: "error", message: `Action "${change.actionName}" is no longer published` };
+    case "action-renamed":
+      return { severity: "error", message: `Action renamed to "${change.newActionName}"; the stage still calls "${change.actionName}"` };
+    case "input-removed":
+      return {
+        severity: severity(passes, "warning"),
+        message: passes
+          ? `Passes a value to input "${change.parameterName}", which was removed`
+          : `Input "${change.parameterName}" was removed`,
+      };
+    case "input-renamed":
+      return {
+        severity: severity(passes, "warning"),
+        message: passes
+          ? `Passes a value to input "${change.parameterName}", which is now "${change.newParameterName}"`
+          : `Input "${change.parameterName}" is now "${change.newParameterName}"`,
+      };
+    case "input-type-changed":
+      return {
+        severity: severity(passes, "info"),
+        message: `${passes ? "Passes a value to input" : "Input"} "${change.parameterName}", which changed from ${change.oldType} to ${change.newType}`,
+      };
+    case "input-added":
+      return { severity: "warning", message: `New ${change.newType} input "${change.parameterName}" will be blank until the stage sets it` };
+    case "output-removed":
+    case "output-renamed":
+    case "output-type-changed": {
+      // An output the stage ignores can change freely
+      if (call && !stores) return undefined;
+      const subject = stores ? `Stores output "${change.parameterName}", which` : `Output "${change.parameterName}"`;
+      return {
+        severity: severity(stores, "info"),
+        message: change.kind === "output-removed"
+          ? `${subject} was removed`
+          : change.kind === "output-renamed"
+            ? `${subject} is now "${change.newParameterName}"`
+            : `${subject} changed from ${change.oldType} to ${change.newType}`,
+      };
+    }
+    case "output-added":
+      return { severity: "info", message: `New ${change.newType} output "${change.parameterName}" is not stored` };
+    case "action-added":
+      return undefined;
+  }
+}
+
+// Builds the impact report body: the signature changes and every calling
+// stage they affect, most severe first
+export function assessImpact(
+  before: VBOAnalysis,
+  after: VBOAnalysis,
+  callers: CallerStage[],
+): Pick<ImpactReport, "changes" | "callers" | "summary"> {
+  const changes = diffActionSignatures(before, after);
+  const impacted: ImpactedCaller[] = [];
+
+  callers.forEach(({ callSite, call }) => {
+    const reasons = changes
+      .filter(change => nameKey(change.actionName) === nameKey(callSite.actionName))
+      .flatMap(change => {
+        const assessment = assessChange(change, call);
+        return assessment ? [{ ...assessment, change }] : [];
+      })
+      .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+    if (reasons.length > 0) {
+      impacted.push({
+        analysisId: callSite.analysisId,
+        processName: callSite.processName,
+        page: callSite.page,
+        stageId: callSite.stageId,
+        stageName: callSite.stageName,
+        actionName: callSite.actionName,
+        severity: reasons[0].severity,
+        reasons,
+      });
+    }
+  });
+
+  impacted.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+    || a.processName.localeCompare(b.processName)
+    || a.page.localeCompare(b.page));
+
+  return {
+    changes,
+    callers: impacted,
+    summary: {
+      error: impacted.filter(caller => caller.severity === "error").length,
+      warning: impacted.filter(caller => caller.severity === "warning").length,
+      info: impacted.filter(caller => caller.severity === "info").length,
+      unaffected: callers.length - impacted.length,
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import type { StageTypeCount, SubsheetInventory } from "@shared/schema";
+import { getPages } from "./pages";
+
+// Counts stages by type for the whole process and for each page
+export function buildStageInventory(process: any): {
+  stageInventory: StageTypeCount[];
+  subsheetInventory: SubsheetInventory[];
+} {
+  const subsheetInventory = getPages(process).map(page => ({
+    subsheetId: page.id,
+    name: page.name,
+    totalStages: page.stages.length,
+    stageTypes: countStageTypes(page.stages),
+  }));
+
+  return {
+    stageInventory: countStageTypes(process.stage || []),
+    subsheetInventory,
+  };
+}
+
+function countStageTypes(stages: any[]): StageTypeCount[] {
+  const counts = new Map<string, StageTypeCount>();
+
+  stages.forEach((stage: any) => {
+    const type = stage.$.type || "Unknown";
+    if (!counts.has(type)) {
+      counts.set(type, { type, count: 0, stageNames: [] });
+    }
+    const entry = counts.get(type)!;
+    entry.count++;
+    entry.stageNames.push(stage.$.name || "");
+  });
+
+  // Most frequent types first
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.type.localeCompare(b.type));
+}
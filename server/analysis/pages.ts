@@ -0,0 +1,30 @@
+import { stageSubsheetId } from "./xml";
+
+// A page of a process or object: the main page (no subsheet) or one subsheet
+export interface ProcessPage {
+  id?: string;
+  name: string;
+  subsheet?: any;
+  stages: any[];
+}
+
+export const MAIN_PAGE_NAME = "Main Process";
+
+export function getPages(process: any): ProcessPage[] {
+  const stages = process.stage || [];
+  const subsheets = process.subsheet || [];
+
+  return [
+    { name: MAIN_PAGE_NAME, stages: findStagesBySubsheet(stages, undefined) },
+    ...subsheets.map((subsheet: any) => ({
+      id: subsheet.$.subsheetid,
+      name: subsheet.name?.[0] || "Unknown Subsheet",
+      subsheet,
+      stages: findStagesBySubsheet(stages, subsheet.$.subsheetid),
+    })),
+  ];
+}
+
+function findStagesBySubsheet(stages: any[], subsheetId: string | undefined): any[] {
+  return stages.filter(stage => stageSubsheetId(stage) === subsheetId);
+}
@@ -0,0 +1,53 @@
+import type { ProcessAnalysis, ProcessCall } from "@shared/schema";
+import { getPages } from "./pages";
+import { childText } from "./xml";
+import { nameKey } from "./dependencies";
+
+// A process that another process may call: a release item or a file in the same batch
+export interface CalleeCandidate {
+  id: string;
+  name: string;
+}
+
+// Collects every Process stage, i.e. a call to another process by its id.
+// The callee name is filled in later by resolveProcessCalls, because a single
+// .bpprocess file only knows the id it points at.
+export function extractProcessCalls(process: any): ProcessCall[] {
+  const calls: ProcessCall[] = [];
+
+  getPages(process).forEach(page => {
+    page.stages
+      .filter((stage: any) => stage.$?.type === "Process")
+      .forEach((stage: any) => {
+        calls.push({
+          stageId: stage.$.stageid || "",
+          stageName: stage.$.name || "",
+          page: page.name,
+          processId: childText(stage, "processid")?.trim() || "",
+        });
+      });
+  });
+
+  return calls;
+}
+
+// Names the callee of every Process stage that points at one of `candidates`.
+// Ids are matched first; a stage whose id is unknown (e.g. the callee was
+// re-imported under a new id) falls back to a process with the stage's name,
+// which is what Blue Prism names Process stages by default.
+export function resolveProcessCalls(processes: ProcessAnalysis[], candidates: CalleeCandidate[]): ProcessAnalysis[] {
+  const byId = new Map<string, CalleeCandidate>();
+  const byName = new Map<string, CalleeCandidate>();
+  candidates.forEach(candidate => {
+    if (candidate.id) byId.set(candidate.id.toLowerCase(), candidate);
+    byName.set(nameKey(candidate.name), candidate);
+  });
+
+  return processes.map(process => ({
+    ...process,
+    processCalls: process.processCalls.map(call => {
+      const callee = byId.get(call.processId.toLowerCase()) || byName.get(nameKey(call.stageName));
+      return callee ? { ...call, calleeName: callee.name } : call;
+    }),
+  }));
+}
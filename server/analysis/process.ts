@@ -0,0 +1,150 @@
+import type { ActionCall, ProcessAnalysis, VBODependency } from "@shared/schema";
+import { getPages } from "./pages";
+import { buildStageInventory } from "./inventory";
+import { buildFlowGraph } from "./flow-graph";
+import { findFlowIssues } from "./reachability";
+import { buildCallGraph } from "./call-graph";
+import { extractProcessCalls } from "./process-calls";
+import { buildDataCatalogue } from "./data-items";
+import { buildConfigurationReport } from "./configuration";
+import { checkExpressions } from "./expressions";
+import { analyzeExceptionHandling } from "./exceptions";
+import { runRules, DEFAULT_RULE_CONFIG, type RuleConfig } from "./rules";
+
+export interface SourceFile {
+  fileName: string;
+  fileSize: number;
+}
+
+// Builds the process analysis from the parsed <process> element of a .bpprocess
+// file (or a process embedded in a release).
+export function analyzeProcess(process: any, source: SourceFile, ruleConfig: RuleConfig = DEFAULT_RULE_CONFIG): ProcessAnalysis {
+  const processData = process.$ || {};
+  const processName = processData.name || "Unknown Process";
+
+  // Extract stages and subsheets
+  const stages = process.stage || [];
+  const subsheets = process.subsheet || [];
+
+  // Extract dependencies
+  const actionCalls: ActionCall[] = [];
+  const dependencies = extractDependencies(process, actionCalls);
+
+  // Calculate stats
+  const vbos = dependencies;
+  const totalActions = dependencies.reduce((sum, vbo) => sum + vbo.actions.length, 0);
+
+  const dataItems = buildDataCatalogue(process);
+
+  return {
+    fileName: source.fileName,
+    fileSize: source.fileSize,
+    processName,
+    preferredId: processData.preferredid || "",
+    totalStages: stages.length,
+    vboCount: vbos.length,
+    actionCount: totalActions,
+    subsheetCount: subsheets.length,
+    dependencies: dependencies,
+    actionCalls,
+    processCalls: extractProcessCalls(process),
+    dataItems,
+    configuration: buildConfigurationReport(process, dataItems),
+    expressionIssues: checkExpressions(process, dataItems),
+    exceptionCoverage: analyzeExceptionHandling(process),
+    ruleFindings: runRules(process, "process", ruleConfig),
+    ...buildStageInventory(process),
+    flowGraph: buildFlowGraph(process),
+    flowFindings: findFlowIssues(process),
+    callGraph: buildCallGraph(process),
+  };
+}
+
+export function extractDependencies(process: any, actionCalls?: ActionCall[]): VBODependency[] {
+  const vbos: Map<string, VBODependency> = new Map();
+
+  // Extract from the main page and every subsheet
+  getPages(process).forEach(page => {
+    extractFromStages(page.stages, vbos, page.name, actionCalls);
+  });
+
+  return Array.from(vbos.values());
+}
+
+export function extractFromStages(stages: any[], vbos: Map<string, VBODependency>, location: string, actionCalls?: ActionCall[]) {
+  stages.forEach((stage: any) => {
+    const stageData = stage.$;
+    const stageName = stageData.name;
+    
+    // Look for resource tags that define VBO usage
+    if (stage.resource && stage.resource.length > 0) {
+      const resource = stage.resource[0].$;
+      const vboName = resource.object;
+      const actionName = resource.action;
+      
+      if (vboName && actionName) {
+        const vboKey = vboName;
+        
+        // Get or create VBO
+        if (!vbos.has(vboKey)) {
+          vbos.set(vboKey, {
+            id: vboKey,
+            name: vboName,
+            usageCount: 0,
+            locations: [],
+            actions: [],
+            description: `Visual Business Object: ${vboName}`
+          });
+        }
+        
+        const vbo = vbos.get(vboKey)!;
+        vbo.usageCount++;
+        if (!vbo.locations.includes(location)) {
+          vbo.locations.push(location);
+        }
+
+        // Create unique action key
+        const actionKey = `${actionName}-${vboName}`;
+        
+        // Check if action already exists in this VBO
+        const existingAction = vbo.actions.find(action => action.name === actionName);
+        
+        if (!existingAction) {
+          // Add new action to this VBO
+          vbo.actions.push({
+            id: actionKey,
+            name: actionName,
+            usageCount: 1,
+            locations: [location],
+            description: `Action: ${actionName}`
+          });
+        } else {
+          // Update existing action
+          existingAction.usageCount++;
+          if (!existingAction.locations.includes(location)) {
+            existingAction.locations.push(location);
+          }
+        }
+
+        // Record the individual call site with its parameter mappings
+        actionCalls?.push({
+          stageId: stageData.stageid,
+          stageName,
+          page: location,
+          objectName: vboName,
+          actionName,
+          inputs: (stage.inputs?.[0]?.input || []).map((input: any) => ({
+            name: input.$.name || "",
+            type: input.$.type || "text",
+            expr: input.$.expr || "",
+          })),
+          outputs: (stage.outputs?.[0]?.output || []).map((output: any) => ({
+            name: output.$.name || "",
+            type: output.$.type || "text",
+            stage: output.$.stage || "",
+          })),
+        });
+      }
+    }
+  });
+}
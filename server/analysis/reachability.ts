@@ -0,0 +1,107 @@
+import type { FlowEdge, FlowFinding } from "@shared/schema";
+import { getPages } from "./pages";
+import { stageEdges } from "./flow-graph";
+import { childText } from "./xml";
+
+// Stages that hold data or layout rather than taking part in the flow
+const NON_FLOW_TYPES = new Set(["Data", "Collection", "Block", "SubSheetInfo", "ProcessInfo", "Note"]);
+
+// Paired stages are joined implicitly through their shared groupid: an empty
+// loop jumps to LoopEnd, an unmatched choice to ChoiceEnd, a timeout to WaitEnd.
+const GROUP_PAIRS: Record<string, string> = {
+  LoopStart: "LoopEnd",
+  ChoiceStart: "ChoiceEnd",
+  WaitStart: "WaitEnd",
+};
+
+// Walks every page from its Start stage and reports stages that can never run,
+// End stages that are never reached, links to missing stages and Decisions
+// without both branches. Recover stages are entered by exceptions, so they
+// count as entry points as well.
+export function findFlowIssues(process: any): FlowFinding[] {
+  const findings: FlowFinding[] = [];
+
+  getPages(process).forEach(page => {
+    const stagesById = new Map<string, any>();
+    page.stages.forEach((stage: any) => stagesById.set(stage.$.stageid, stage));
+
+    const report = (kind: FlowFinding["kind"], stage: any, detail?: string) => {
+      findings.push({
+        kind,
+        stageId: stage.$.stageid,
+        stageName: stage.$.name || "",
+        stageType: stage.$.type || "Unknown",
+        page: page.name,
+        detail,
+      });
+    };
+
+    const edges: FlowEdge[] = [];
+    page.stages.forEach((stage: any) => {
+      stageEdges(stage).forEach(edge => {
+        if (stagesById.has(edge.to)) {
+          edges.push(edge);
+        } else {
+          report("dangling-link", stage, `Links to missing stage ${edge.to}`);
+        }
+      });
+
+      if (stage.$.type === "Decision") {
+        if (!childText(stage, "ontrue")?.trim()) report("missing-branch", stage, "No Yes branch");
+        if (!childText(stage, "onfalse")?.trim()) report("missing-branch", stage, "No No branch");
+      }
+    });
+    edges.push(...groupEdges(page.stages));
+
+    const roots = page.stages.filter((stage: any) => stage.$.type === "Start" || stage.$.type === "Recover");
+    if (!roots.some((stage: any) => stage.$.type === "Start")) return;
+
+    const reached = reachableFrom(roots.map((stage: any) => stage.$.stageid), edges);
+
+    page.stages.forEach((stage: any) => {
+      const type = stage.$.type;
+      if (NON_FLOW_TYPES.has(type) || reached.has(stage.$.stageid)) return;
+      report(type === "End" ? "unreachable-end" : "unreachable-stage", stage);
+    });
+  });
+
+  return findings;
+}
+
+function groupEdges(stages: any[]): FlowEdge[] {
+  const edges: FlowEdge[] = [];
+
+  stages.forEach((stage: any) => {
+    const endType = GROUP_PAIRS[stage.$.type];
+    const groupId = childText(stage, "groupid")?.trim();
+    if (!endType || !groupId) return;
+
+    stages
+      .filter((other: any) => other.$.type === endType && childText(other, "groupid")?.trim() === groupId)
+      .forEach((other: any) => edges.push({ from: stage.$.stageid, to: other.$.stageid, kind: "success" }));
+  });
+
+  return edges;
+}
+
+function reachableFrom(roots: string[], edges: FlowEdge[]): Set<string> {
+  const outgoing = new Map<string, string[]>();
+  edges.forEach(edge => {
+    if (!outgoing.has(edge.from)) outgoing.set(edge.from, []);
+    outgoing.get(edge.from)!.push(edge.to);
+  });
+
+  const reached = new Set<string>(roots);
+  const queue = [...roots];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    (outgoing.get(current) || []).forEach(next => {
+      if (!reached.has(next)) {
+        reached.add(next);
+        queue.push(next);
+      }
+    });
+  }
+
+  return reached;
+}
@@ -0,0 +1,89 @@
+import type { FieldChange, ReleaseDiff, ReleaseItem, ReleaseItemDiff } from "@shared/schema";
+import { diffProcesses, isUnchanged } from "./diff";
+import type { ReleaseContents, ReleaseEntry } from "./release";
+import { nameKey } from "./dependencies";
+
+// Compares the contents of two releases item by item. Processes and
+// objects are matched by ID and then by kind and name; every matched pair that
+// differs gets the full structural diff.
+export function diffReleases(before: ReleaseContents, after: ReleaseContents): Omit<ReleaseDiff, "oldFileName" | "newFileName"> {
+  const oldEntries = before.entries;
+  const newEntries = after.entries;
+
+  const unmatchedOld = new Set<ReleaseEntry>(oldEntries);
+  const items: ReleaseItemDiff[] = [];
+
+  const pairs: [ReleaseEntry, ReleaseEntry][] = [];
+  const unmatchedNew: ReleaseEntry[] = [];
+  newEntries.forEach(entry => {
+    const match = Array.from(unmatchedOld).find(old => old.item.id && old.item.id === entry.item.id);
+    if (match) {
+      unmatchedOld.delete(match);
+      pairs.push([match, entry]);
+    } else {
+      unmatchedNew.push(entry);
+    }
+  });
+  unmatchedNew.forEach(entry => {
+    const match = Array.from(unmatchedOld).find(old =>
+      old.item.kind === entry.item.kind && nameKey(old.item.name) === nameKey(entry.item.name)
+    );
+    if (match) {
+      unmatchedOld.delete(match);
+      pairs.push([match, entry]);
+    } else {
+      items.push({ ...itemDiff(entry.item, "added"), newVersion: version(entry), newBpVersion: bpVersion(entry) });
+    }
+  });
+  unmatchedOld.forEach(entry => {
+    items.push({ ...itemDiff(entry.item, "removed"), oldVersion: version(entry), oldBpVersion: bpVersion(entry) });
+  });
+
+  pairs.forEach(([old, current]) => {
+    const diff = diffProcesses(old.body, current.body, current.item.kind);
+    const unchanged = isUnchanged(diff);
+    items.push({
+      ...itemDiff(current.item, unchanged ? "unchanged" : "modified"),
+      oldVersion: version(old),
+      newVersion: version(current),
+      oldBpVersion: bpVersion(old),
+      newBpVersion: bpVersion(current),
+      diff: unchanged ? undefined : diff,
+    });
+  });
+
+  const oldHeader = before.header;
+  const newHeader = after.header;
+  const properties: FieldChange[] = (Object.keys(newHeader) as (keyof typeof newHeader)[])
+    .filter(field => oldHeader[field] !== newHeader[field])
+    .map(field => ({ field, category: "property", before: oldHeader[field], after: newHeader[field] }));
+
+  const count = (change: ReleaseItemDiff["change"]) => items.filter(item => item.change === change).length;
+
+  return {
+    oldReleaseName: oldHeader.releaseName,
+    newReleaseName: newHeader.releaseName,
+    oldCreated: oldHeader.created,
+    newCreated: newHeader.created,
+    properties,
+    items: items.sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name)),
+    summary: {
+      added: count("added"),
+      removed: count("removed"),
+      modified: count("modified"),
+      unchanged: count("unchanged"),
+    },
+  };
+}
+
+function itemDiff(item: ReleaseItem, change: ReleaseItemDiff["change"]): ReleaseItemDiff {
+  return { id: item.id, name: item.name, kind: item.kind, change };
+}
+
+function version(entry: ReleaseEntry): string | undefined {
+  return entry.body.$?.version;
+}
+
+function bpVersion(entry: ReleaseEntry): string | undefined {
+  return entry.body.$?.bpversion;
+}
@@ -0,0 +1,141 @@
+import type { Readable } from "stream";
+import type { ReleaseAnalysis, ReleaseItem, ProcessAnalysis, VBOAnalysis } from "@shared/schema";
+import { analyzeProcess, type SourceFile } from "./process";
+import { analyzeVBO } from "./vbo";
+import { resolveDependencies } from "./dependencies";
+import { checkParameterContracts } from "./contracts";
+import { resolveProcessCalls } from "./process-calls";
+import { childText, parseXml, type ParseOptions } from "./xml";
+import { DEFAULT_RULE_CONFIG, type RuleConfig } from "./rules";
+
+// Unpacks a parsed <bpr:release> envelope and analyzes every process and object
+// listed in <bpr:contents>. Contained items report the release file as their source.
+export function analyzeRelease(release: any, source: SourceFile, ruleConfig: RuleConfig = DEFAULT_RULE_CONFIG): ReleaseAnalysis {
+  const collector = new ReleaseCollector(source, ruleConfig);
+  releaseEntries(release).forEach(({ item, body }) => collector.add(item, body));
+  return collector.finish(release);
+}
+
+// Parses an export, analyzing a release while it is read: each process and
+// object in <bpr:contents> is analyzed as soon as its element closes and then
+// left out of the tree, so only one item is held in memory at a time. The
+// returned document is the rest of the tree; `release` is set when the
+// document is a release.
+export async function readExport(
+  input: string | Readable,
+  source: SourceFile,
+  ruleConfig: RuleConfig = DEFAULT_RULE_CONFIG,
+): Promise<{ document: any; release?: ReleaseAnalysis }> {
+  const collector = new ReleaseCollector(source, ruleConfig);
+  const document = await parseXml(input, { onElement: takeReleaseEntries(entry => collector.add(entry.item, entry.body)) });
+
+  const release = document?.["bpr:release"];
+  return { document, release: release ? collector.finish(release) : undefined };
+}
+
+// The header and packaged items of a release, without the rest of its tree
+export interface ReleaseContents {
+  header: ReturnType<typeof releaseHeader>;
+  entries: ReleaseEntry[];
+}
+
+// Parses a release keeping only what comparing it needs: the header and the
+// parsed body of each process and object, taken out of the tree as they are
+// read. Returns undefined when the document is not a release.
+export async function readReleaseContents(input: string | Readable): Promise<ReleaseContents | undefined> {
+  const entries: ReleaseEntry[] = [];
+  const document = await parseXml(input, { onElement: takeReleaseEntries(entry => entries.push(entry)) });
+
+  const release = document?.["bpr:release"];
+  return release ? { header: releaseHeader(release), entries } : undefined;
+}
+
+// An onElement handler that hands each process and object in <bpr:contents>
+// to `take` as soon as its element closes and leaves it out of the tree
+function takeReleaseEntries(take: (entry: ReleaseEntry) => void): ParseOptions["onElement"] {
+  return (path, entry) => {
+    if (path.length !== 3 || path[0] !== "bpr:release" || path[1] !== "bpr:contents") return false;
+    if (path[2] !== "process" && path[2] !== "object") return false;
+    // Process groups list <process id="..."/> members without a body; skip those
+    if (entry.process?.[0]) take({ item: releaseItem(entry, path[2]), body: entry.process[0] });
+    return true;
+  };
+}
+
+// Analyzes release items one at a time and assembles the release analysis
+class ReleaseCollector {
+  private items: ReleaseItem[] = [];
+  private processes: ProcessAnalysis[] = [];
+  private objects: VBOAnalysis[] = [];
+
+  constructor(private source: SourceFile, private ruleConfig: RuleConfig) {}
+
+  add(item: ReleaseItem, body: any) {
+    this.items.push(item);
+    if (item.kind === "process") {
+      this.processes.push(analyzeProcess(body, this.source, this.ruleConfig));
+    } else {
+      this.objects.push(analyzeVBO(body, this.source, this.ruleConfig));
+    }
+  }
+
+  finish(release: any): ReleaseAnalysis {
+    // Processes first, then objects, each in package order
+    const items = [
+      ...this.items.filter(item => item.kind === "process"),
+      ...this.items.filter(item => item.kind === "object"),
+    ];
+    return {
+      fileName: this.source.fileName,
+      fileSize: this.source.fileSize,
+      ...releaseHeader(release),
+      items,
+      processes: resolveProcessCalls(this.processes, items.filter(item => item.kind === "process")),
+      objects: this.objects,
+      dependencyResolution: resolveDependencies(this.processes, this.objects),
+      parameterIssues: checkParameterContracts(this.processes, this.objects),
+    };
+  }
+}
+
+// The descriptive fields of a <bpr:release> envelope
+export function releaseHeader(release: any) {
+  return {
+    releaseName: childText(release, "bpr:name")?.trim() || "Unknown Release",
+    packageName: childText(release, "bpr:package-name")?.trim() || "",
+    createdBy: childText(release, "bpr:user-created-by")?.trim() || "",
+    created: childText(release, "bpr:created")?.trim() || "",
+  };
+}
+
+// A process or object packaged in a release with its parsed <process> body
+export interface ReleaseEntry {
+  item: ReleaseItem;
+  body: any;
+}
+
+// Every process and object packaged in a release
+export function releaseEntries(release: any): ReleaseEntry[] {
+  const contents = release["bpr:contents"]?.[0] || {};
+  const entries: ReleaseEntry[] = [];
+
+  (["process", "object"] as const).forEach(kind => {
+    (contents[kind] || []).forEach((entry: any) => {
+      // Process groups list <process id="..."/> members without a body; skip those
+      const body = entry.process?.[0];
+      if (!body) return;
+      entries.push({ item: releaseItem(entry, kind), body });
+    });
+  });
+
+  return entries;
+}
+
+function releaseItem(entry: any, kind: ReleaseItem["kind"]): ReleaseItem {
+  const body = entry.process[0];
+  return {
+    id: entry.$?.id || body.$?.preferredid || "",
+    name: entry.$?.name || body.$?.name || "Unknown",
+    kind,
+  };
+}
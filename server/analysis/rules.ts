@@ -0,0 +1,111 @@
+import { readFileSync, existsSync } from "fs";
+import { z } from "zod";
+import type { RuleFinding, RuleSeverity } from "@shared/schema";
+import { getPages, type ProcessPage } from "./pages";
+import { BUILTIN_RULES } from "./builtin-rules";
+
+export type ModelKind = "process" | "object";
+
+// What a rule sees: the parsed <process> element split into pages, plus the
+// rule's options from the config file with the rule's defaults filled in
+export interface RuleContext<Options = {}> {
+  kind: ModelKind;
+  name: string;
+  process: any;
+  pages: ProcessPage[];
+  options: Options;
+}
+
+// A single problem reported by a rule; the engine adds the rule's id and severity
+export interface RuleViolation {
+  message: string;
+  stageId?: string;
+  stageName?: string;
+  page?: string;
+}
+
+export interface Rule<Options = {}> {
+  id: string;
+  severity: RuleSeverity;
+  description: string;
+  // Model kinds the rule applies to; all kinds when omitted
+  appliesTo?: ModelKind[];
+  // Validates the configured options and supplies their defaults; a rule
+  // without a schema takes no options
+  options?: z.ZodType<Options, z.ZodTypeDef, unknown>;
+  check(context: RuleContext<Options>): RuleViolation[];
+}
+
+// Keeps a rule's options type tied to its schema when it is listed with others
+export function defineRule<Options>(rule: Rule<Options>): Rule<any> {
+  return rule;
+}
+
+const noOptionsSchema = z.object({}).strict();
+
+const ruleSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  severity: z.enum(["error", "warning", "info"]).optional(),
+  options: z.record(z.any()).optional(),
+});
+
+const ruleConfigSchema = z.object({
+  rules: z.record(ruleSettingsSchema).default({}),
+});
+
+export type RuleConfig = z.infer<typeof ruleConfigSchema>;
+
+// With no config file every built-in rule runs with its defaults
+export const DEFAULT_RULE_CONFIG: RuleConfig = { rules: {} };
+
+// Reads the rule configuration file. A missing file means defaults; a file
+// that is not valid JSON, does not match the schema or gives a rule options it
+// does not accept is a startup error.
+export function loadRuleConfig(path: string, rules: Rule<any>[] = BUILTIN_RULES): RuleConfig {
+  if (!existsSync(path)) return DEFAULT_RULE_CONFIG;
+
+  const config = ruleConfigSchema.parse(JSON.parse(readFileSync(path, "utf-8")));
+  const knownIds = new Set(rules.map(rule => rule.id));
+  Object.keys(config.rules)
+    .filter(id => !knownIds.has(id))
+    .forEach(id => console.warn(`Rule config ${path}: unknown rule "${id}" ignored`));
+
+  rules.forEach(rule => {
+    const result = (rule.options || noOptionsSchema).safeParse(config.rules[rule.id]?.options ?? {});
+    if (!result.success) {
+      const problems = result.error.issues.map(issue => `${issue.path.join(".") || "options"}: ${issue.message}`);
+      throw new Error(`Rule config ${path}: invalid options for "${rule.id}": ${problems.join("; ")}`);
+    }
+  });
+  return config;
+}
+
+// Runs every enabled rule that applies to the model and collects its findings
+export function runRules(
+  process: any,
+  kind: ModelKind,
+  config: RuleConfig = DEFAULT_RULE_CONFIG,
+  rules: Rule<any>[] = BUILTIN_RULES,
+): RuleFinding[] {
+  const findings: RuleFinding[] = [];
+  const pages = getPages(process);
+  const name = process.$?.name || "";
+
+  rules.forEach(rule => {
+    const settings = config.rules[rule.id] || {};
+    if (settings.enabled === false) return;
+    if (rule.appliesTo && !rule.appliesTo.includes(kind)) return;
+
+    const options = (rule.options || noOptionsSchema).parse(settings.options ?? {});
+    rule.check({ kind, name, process, pages, options }).forEach(violation => {
+      findings.push({
+        ruleId: rule.id,
+        severity: settings.severity || rule.severity,
+        description: rule.description,
+        ...violation,
+      });
+    });
+  });
+
+  return findings;
+}
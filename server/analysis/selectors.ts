@@ -0,0 +1,108 @@
+import type { ObjectFragility, SelectorQuality, VBOElement } from "@shared/schema";
+
+type AttributeStrength = "strong" | "medium" | "weak" | "neutral" | "position" | "index" | "localized";
+
+// Attributes that identify an element regardless of layout or language
+const STRONG_ATTRIBUTES = new Set(["automationid", "uautomationid", "id", "wid", "controlid"]);
+
+// Attributes that usually identify an element but can be shared or change
+// between application versions
+const MEDIUM_ATTRIBUTES = new Set([
+  "classname", "uclassname", "windowtext", "name", "uname", "wname", "role", "controltype",
+  "ucontroltype", "tagname", "wtagname", "class", "wclass", "title", "inputidentifier",
+]);
+
+// State flags narrow a match down but never identify an element on their own
+const NEUTRAL_ATTRIBUTES = new Set(["visible", "screenvisible", "enabled", "uenabled", "focused", "uisoffscreen"]);
+
+const POSITION_ATTRIBUTE = /^(u|w|aa)?(x|y|width|height|left|top|right|bottom|screenbounds|clientbounds|boundingrectangle|bounds)$/i;
+const INDEX_ATTRIBUTE = /(ordinal|index|xpath|path)$/i;
+const LOCALIZED_ATTRIBUTE = /localized/i;
+
+// Points taken off for each fragile attribute in use
+const PENALTIES: Partial<Record<AttributeStrength, number>> = {
+  position: 20,
+  index: 15,
+  localized: 10,
+};
+
+// Scores an element's match criteria from 0 (fragile) to 100 (robust) based on
+// the attributes marked as in use. Returns undefined for elements without
+// attributes, such as the application root and groups.
+export function scoreSelector(attributes: Record<string, any> | undefined): SelectorQuality | undefined {
+  if (!attributes) return undefined;
+
+  const inUse = Object.keys(attributes).filter(name => attributes[name].inuse);
+  const byStrength = new Map<AttributeStrength, string[]>();
+  inUse.forEach(name => {
+    const strength = attributeStrength(name);
+    byStrength.set(strength, [...(byStrength.get(strength) || []), name]);
+  });
+  const count = (strength: AttributeStrength) => byStrength.get(strength)?.length || 0;
+
+  const reasons: string[] = [];
+  let score: number;
+  if (count("strong") > 0) {
+    score = 90;
+  } else if (count("medium") > 0) {
+    score = Math.min(80, 50 + 10 * count("medium"));
+    reasons.push("No stable identifier such as an AutomationId or ID");
+  } else if (count("weak") > 0) {
+    score = 35;
+    reasons.push("Matched only on attributes that rarely identify an element");
+  } else {
+    score = 10;
+    reasons.push(inUse.length === 0 ? "No attributes are in use" : "Matched only on state flags");
+  }
+
+  const fragile: string[] = [];
+  (Object.keys(PENALTIES) as AttributeStrength[]).forEach(strength => {
+    const names = byStrength.get(strength) || [];
+    if (names.length === 0) return;
+    fragile.push(...names);
+    score -= PENALTIES[strength]! * names.length;
+    if (strength === "position") reasons.push(`Depends on screen position or size (${names.join(", ")})`);
+    if (strength === "index") reasons.push(`Depends on window or element order (${names.join(", ")})`);
+    if (strength === "localized") reasons.push(`Depends on localized text (${names.join(", ")})`);
+  });
+
+  score = Math.max(0, Math.min(100, score));
+  return {
+    score,
+    rating: score >= 70 ? "good" : score >= 40 ? "fair" : "poor",
+    attributesInUse: inUse,
+    fragileAttributes: fragile,
+    reasons,
+  };
+}
+
+// Overall fragility of an object: 100 minus the average selector score, so
+// higher means more likely to break
+export function summarizeFragility(elements: VBOElement[]): ObjectFragility {
+  const scored = elements.filter(element => element.selector);
+  const total = scored.reduce((sum, element) => sum + element.selector!.score, 0);
+
+  return {
+    score: scored.length === 0 ? 0 : Math.round(100 - total / scored.length),
+    scoredElements: scored.length,
+    poorElements: scored.filter(element => element.selector!.rating === "poor").length,
+    fairElements: scored.filter(element => element.selector!.rating === "fair").length,
+  };
+}
+
+function attributeStrength(name: string): AttributeStrength {
+  const key = name.toLowerCase();
+  if (LOCALIZED_ATTRIBUTE.test(name)) return "localized";
+  if (POSITION_ATTRIBUTE.test(name) || POSITION_ATTRIBUTE.test(parentAttribute(name))) return "position";
+  if (INDEX_ATTRIBUTE.test(name)) return "index";
+  if (STRONG_ATTRIBUTES.has(key)) return "strong";
+  if (MEDIUM_ATTRIBUTES.has(key)) return "medium";
+  if (NEUTRAL_ATTRIBUTES.has(key)) return "neutral";
+  // Parent attributes (pClassName, puAutomationId, ...) only add context
+  return "weak";
+}
+
+// pClassName -> ClassName, puAutomationId -> uAutomationId
+function parentAttribute(name: string): string {
+  return name.startsWith("p") && name.length > 1 && /[A-Zu]/.test(name[1]) ? name.slice(1) : name;
+}
@@ -0,0 +1,195 @@
+import type { VBOAnalysis } from "@shared/schema";
+import type { SourceFile } from "./process";
+import { stageSubsheetId } from "./xml";
+import { buildDataCatalogue } from "./data-items";
+import { buildConfigurationReport } from "./configuration";
+import { checkExpressions } from "./expressions";
+import { runRules, DEFAULT_RULE_CONFIG, type RuleConfig } from "./rules";
+import { extractCodeInfo } from "./code-stages";
+import { scoreSelector, summarizeFragility } from "./selectors";
+import { extractElementUsages, mapElementUsage } from "./element-usage";
+
+// Builds the VBO analysis from the parsed <process type="object"> element of a
+// .bpobject file (or an object embedded in a release).
+export function analyzeVBO(process: any, source: SourceFile, ruleConfig: RuleConfig = DEFAULT_RULE_CONFIG): VBOAnalysis {
+  const processData = process.$ || {};
+  const vboName = processData.name || "Unknown VBO";
+  const version = processData.version || "1.0";
+  const narrative = processData.narrative || "";
+
+  // Extract actions (SubSheetInfo stages)
+  const stages = process.stage || [];
+  const actions = extractVBOActions(stages, process.subsheet || []);
+
+  // Extract elements from appdef
+  const elements = extractVBOElements(process.appdef || []);
+  const unusedElements = mapElementUsage(elements, extractElementUsages(process));
+
+  const dataItems = buildDataCatalogue(process);
+
+  return {
+    fileName: source.fileName,
+    fileSize: source.fileSize,
+    vboName,
+    preferredId: processData.preferredid || "",
+    version,
+    narrative,
+    actionCount: actions.length,
+    elementCount: elements.length,
+    actions,
+    elements,
+    dataItems,
+    configuration: buildConfigurationReport(process, dataItems),
+    expressionIssues: checkExpressions(process, dataItems),
+    ruleFindings: runRules(process, "object", ruleConfig),
+    code: extractCodeInfo(process),
+    fragility: summarizeFragility(elements),
+    unusedElements,
+  };
+}
+
+export function extractVBOActions(stages: any[], subsheets: any[] = []): any[] {
+  const actions: any[] = [];
+
+  // Only Normal pages marked published can be called from a process; the
+  // CleanUp page is published but invoked by Blue Prism itself.
+  const publishedPages = new Set<string>(
+    subsheets
+      .filter((subsheet: any) => subsheet.$.published === "True" && subsheet.$.type === "Normal")
+      .map((subsheet: any) => subsheet.$.subsheetid)
+  );
+  
+  stages.forEach((stage: any) => {
+    const stageData = stage.$;
+    const stageType = stageData.type;
+    
+    if (stageType === "SubSheetInfo") {
+      const name = stageData.name;
+      const id = stageData.stageid;
+      const narrative = stage.narrative?.[0] || "";
+      
+      // The action's signature lives on its page: inputs on the Start stage,
+      // outputs on the End stage(s)
+      const pageId = stageSubsheetId(stage);
+      const pageStages = stages.filter((pageStage: any) => stageSubsheetId(pageStage) === pageId);
+      const inputs = extractParameters(pageStages, "Start", "inputs", "input");
+      const outputs = extractParameters(pageStages, "End", "outputs", "output");
+
+      actions.push({
+        id,
+        name,
+        type: stageType,
+        description: narrative.trim() || undefined,
+        inputs: inputs.length > 0 ? inputs : undefined,
+        outputs: outputs.length > 0 ? outputs : undefined,
+        published: publishedPages.has(pageId || ""),
+      });
+    }
+  });
+  
+  return actions;
+}
+
+function extractParameters(pageStages: any[], stageType: string, listTag: string, itemTag: string): any[] {
+  const parameters: any[] = [];
+
+  pageStages
+    .filter((stage: any) => stage.$.type === stageType)
+    .forEach((stage: any) => {
+      (stage[listTag]?.[0]?.[itemTag] || []).forEach((parameter: any) => {
+        const name = parameter.$.name || "";
+        // A page can have several End stages declaring the same outputs
+        if (parameters.some(existing => existing.name === name)) return;
+        parameters.push({
+          name,
+          type: parameter.$.type || "text",
+          description: parameter.$.narrative || parameter.$.description || "",
+        });
+      });
+    });
+
+  return parameters;
+}
+
+export function extractVBOElements(appdefArray: any[]): any[] {
+  const elements: any[] = [];
+  
+  if (!appdefArray || appdefArray.length === 0) {
+    return elements;
+  }
+  
+  const appdef = appdefArray[0];
+  if (appdef.element) {
+    extractElementsRecursive(appdef.element, elements, "");
+  }
+  
+  return elements;
+}
+
+function extractElementsRecursive(elementArray: any[], elements: any[], parentPath: string, parentId?: string): void {
+  if (!elementArray) return;
+  
+  elementArray.forEach((element: any) => {
+    const name = element.$.name;
+    const id = element.id?.[0];
+    const type = element.type?.[0] || element.$.type || "element";
+    
+    if (name && id) {
+      const currentPath = parentPath ? `${parentPath} - ${name}` : name;
+      
+      // Extract attributes
+      const attributes: Record<string, any> = {};
+      if (element.attributes && element.attributes[0] && element.attributes[0].attribute) {
+        element.attributes[0].attribute.forEach((attr: any) => {
+          const attrName = attr.$.name;
+          const processValue = attr.ProcessValue?.[0];
+          if (attrName && processValue) {
+            attributes[attrName] = {
+              datatype: processValue.$.datatype,
+              value: processValue.$.value,
+              inuse: attr.$.inuse === "True",
+            };
+          }
+        });
+      }
+
+      const hasAttributes = Object.keys(attributes).length > 0;
+      elements.push({
+        id,
+        name,
+        type,
+        parentId,
+        path: currentPath,
+        attributes: hasAttributes ? attributes : undefined,
+        selector: hasAttributes ? scoreSelector(attributes) : undefined,
+      });
+
+      // Process child elements
+      if (element.element) {
+        extractElementsRecursive(element.element, elements, currentPath, id);
+      }
+      
+      // Process groups
+      if (element.group) {
+        element.group.forEach((group: any) => {
+          const groupName = group.$.name;
+          const groupId = group.id?.[0];
+          if (groupName && groupId) {
+            const groupPath = `${currentPath} - ${groupName}`;
+            elements.push({
+              id: groupId,
+              name: groupName,
+              type: "group",
+              parentId: id,
+              path: groupPath,
+            });
+            
+            if (group.element) {
+              extractElementsRecursive(group.element, elements, groupPath, groupId);
+            }
+          }
+        });
+      }
+    }
+  });
+}
@@ -0,0 +1,39 @@
+import type { ActionCall, InsertAnalysis, ProcessAnalysis, ReleaseAnalysis, StoredAnalysis, VBOCallSite } from "@shared/schema";
+
+// The where-used entries of a saved analysis: every action call recorded by
+// extractFromStages, for the process itself or each process in a release.
+// Objects are not indexed. `processNames` lists every process covered, so
+// processes that no longer call anything drop out of the index too.
+export function buildCallSites(
+  analysisId: number,
+  kind: InsertAnalysis["kind"],
+  result: InsertAnalysis["result"],
+): { processNames: string[]; callSites: VBOCallSite[] } {
+  const processes = analyzedProcesses(kind, result);
+
+  return {
+    processNames: processes.map(process => process.processName),
+    callSites: processes.flatMap(process => process.actionCalls.map(call => ({
+      analysisId,
+      processName: process.processName,
+      page: call.page,
+      stageId: call.stageId || "",
+      stageName: call.stageName || "",
+      objectName: call.objectName,
+      actionName: call.actionName,
+    }))),
+  };
+}
+
+// The action call behind a where-used entry, with its parameter mappings
+export function findActionCall(analysis: StoredAnalysis, callSite: VBOCallSite): ActionCall | undefined {
+  return analyzedProcesses(analysis.kind, analysis.result)
+    .find(process => process.processName === callSite.processName)
+    ?.actionCalls.find(call => call.stageId === callSite.stageId);
+}
+
+function analyzedProcesses(kind: InsertAnalysis["kind"], result: InsertAnalysis["result"]): ProcessAnalysis[] {
+  if (kind === "process") return [result as ProcessAnalysis];
+  if (kind === "release") return (result as ReleaseAnalysis).processes;
+  return [];
+}
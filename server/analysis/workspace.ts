@@ -0,0 +1,298 @@
+import type {
+  InsertAnalysis,
+  ProcessAnalysis,
+  ReleaseAnalysis,
+  VBOAnalysis,
+  VBODependency,
+  VBOUsage,
+  WorkspaceAnalysis,
+  WorkspaceFile,
+  WorkspaceItem,
+  SkippedEntry,
+} from "@shared/schema";
+import { Readable } from "stream";
+import { buffer } from "stream/consumers";
+import { analyzeProcess, type SourceFile } from "./process";
+import { analyzeVBO } from "./vbo";
+import { readExport } from "./release";
+import { isInternalBusinessObject, nameKey, resolveDependencies } from "./dependencies";
+import { checkParameterContracts } from "./contracts";
+import { resolveProcessCalls } from "./process-calls";
+import { DEFAULT_RULE_CONFIG, type RuleConfig } from "./rules";
+import { readZip } from "./zip";
+import { hashXmlStream } from "./cache";
+
+export type DocumentKind = "process" | "object" | "release";
+
+// An uploaded file, read on demand so that a batch is never held in memory
+// all at once
+export interface UploadedFile {
+  fileName: string;
+  fileSize: number;
+  open: () => Readable;
+  // Why the file was not accepted, such as being over the upload size limit;
+  // it is recorded as failed without being read
+  error?: string;
+}
+
+// Saved analyses a batch can reuse, looked up by the hash of the file, and
+// where it saves the analyses of files it has not seen before
+export interface AnalysisCache {
+  find(kind: DocumentKind, contentHash: string): Promise<InsertAnalysis["result"] | undefined>;
+  save(source: SourceFile, kind: DocumentKind, name: string, contentHash: string, result: InsertAnalysis["result"]): Promise<void>;
+}
+
+const EXTENSION_KINDS: Record<string, DocumentKind> = {
+  ".bpprocess": "process",
+  ".bpobject": "object",
+  ".bprelease": "release",
+};
+
+// The kind a file name's extension claims, if it is a Blue Prism export
+export function kindFromExtension(fileName: string): DocumentKind | undefined {
+  const extension = fileName.slice(fileName.lastIndexOf(".")).toLowerCase();
+  return EXTENSION_KINDS[extension];
+}
+
+// Decides what a parsed document is from its root element: <bpr:release>, or
+// <process> with type="object" for business objects. Throws when the root is
+// not a Blue Prism export or contradicts the file extension.
+export function classifyDocument(fileName: string, parsed: any): DocumentKind {
+  const rootKind: DocumentKind | undefined = parsed?.["bpr:release"]
+    ? "release"
+    : parsed?.process
+      ? parsed.process.$?.type === "object" ? "object" : "process"
+      : undefined;
+
+  if (!rootKind) {
+    throw new Error("Not a Blue Prism process, object or release");
+  }
+  const extensionKind = kindFromExtension(fileName);
+  if (extensionKind && extensionKind !== rootKind) {
+    throw new Error(`File extension says ${extensionKind} but the file contains a ${rootKind}`);
+  }
+  return rootKind;
+}
+
+function isArchive(fileName: string): boolean {
+  return fileName.toLowerCase().endsWith(".zip");
+}
+
+// Archive entries worth analyzing; returns the reason to skip any other entry
+function archiveEntryRejection(path: string): string | undefined {
+  if (path.startsWith("__MACOSX/")) return "macOS metadata";
+  if (isArchive(path)) return "Nested archives are not expanded";
+  if (!kindFromExtension(path) && !path.toLowerCase().endsWith(".xml")) return "Unsupported file type";
+  return undefined;
+}
+
+// Analyzes a batch of uploaded files as one workspace. Each file is parsed
+// and analyzed on its own; a file that fails is recorded with its error and
+// the rest of the batch carries on. Each entry of a .zip archive is analyzed
+// as if it had been uploaded on its own, before the next archive is expanded,
+// so only one archive's contents are in memory at a time. With a cache, a file
+// analyzed before is served from its saved analysis and every other file is
+// saved for next time. Cross-file checks
+// then run over every process and object found, including those packaged in
+// releases.
+export async function analyzeWorkspace(
+  uploads: UploadedFile[],
+  ruleConfig: RuleConfig = DEFAULT_RULE_CONFIG,
+  cache?: AnalysisCache,
+): Promise<WorkspaceAnalysis> {
+  const files: WorkspaceFile[] = [];
+  const skippedEntries: SkippedEntry[] = [];
+  const items: WorkspaceItem[] = [];
+  const processes: ProcessAnalysis[] = [];
+  const objects: VBOAnalysis[] = [];
+
+  const analyzeFile = async (upload: UploadedFile) => {
+    const source = { fileName: upload.fileName, fileSize: upload.fileSize };
+    try {
+      if (!kindFromExtension(upload.fileName) && !upload.fileName.toLowerCase().endsWith(".xml")) {
+        throw new Error("Unsupported file type");
+      }
+
+      const contentHash = cache ? await hashXmlStream(upload.open()) : undefined;
+      const cached = cache && contentHash ? await findCached(cache, upload.fileName, contentHash) : undefined;
+      const { kind, result } = cached
+        ? { kind: cached.kind, result: withSource(cached.kind, cached.result, source) }
+        : await analyzeDocument(upload, source, ruleConfig);
+      if (cache && contentHash && !cached) {
+        await cache.save(source, kind, analysisName(kind, result), contentHash, result);
+      }
+
+      let itemCount = 1;
+      if (kind === "release") {
+        const release = result as ReleaseAnalysis;
+        release.items.forEach(item => items.push({ ...item, fileName: upload.fileName }));
+        processes.push(...release.processes);
+        objects.push(...release.objects);
+        itemCount = release.items.length;
+      } else if (kind === "object") {
+        const object = result as VBOAnalysis;
+        items.push({ id: object.preferredId || "", name: object.vboName, kind, fileName: upload.fileName });
+        objects.push(object);
+      } else {
+        const process = result as ProcessAnalysis;
+        items.push({ id: process.preferredId || "", name: process.processName, kind, fileName: upload.fileName });
+        processes.push(process);
+      }
+
+      files.push({ ...source, kind, status: "analyzed", itemCount, cached: cached !== undefined });
+    } catch (error) {
+      files.push({
+        ...source,
+        kind: kindFromExtension(upload.fileName),
+        status: "failed",
+        error: error instanceof Error ? error.message : "Failed to analyze file",
+        itemCount: 0,
+      });
+    }
+  };
+
+  for (const upload of uploads) {
+    if (upload.error) {
+      files.push({
+        fileName: upload.fileName,
+        fileSize: upload.fileSize,
+        kind: isArchive(upload.fileName) ? "archive" : kindFromExtension(upload.fileName),
+        status: "failed",
+        error: upload.error,
+        itemCount: 0,
+      });
+      continue;
+    }
+    if (!isArchive(upload.fileName)) {
+      await analyzeFile(upload);
+      continue;
+    }
+    const source = { fileName: upload.fileName, fileSize: upload.fileSize, kind: "archive" as const };
+    let entries: UploadedFile[] = [];
+    try {
+      // Archives are expanded in memory, within the zip size limits
+      const archive = readZip(await buffer(upload.open()), archiveEntryRejection);
+      entries = archive.entries.map(entry => ({
+        fileName: `${upload.fileName}/${entry.path}`,
+        fileSize: entry.content.length,
+        open: () => Readable.from([entry.content]),
+      }));
+      archive.skipped.forEach(entry => skippedEntries.push({ archive: upload.fileName, ...entry }));
+      files.push({ ...source, status: "analyzed", itemCount: archive.entries.length });
+    } catch (error) {
+      files.push({
+        ...source,
+        status: "failed",
+        error: error instanceof Error ? error.message : "Failed to read archive",
+        itemCount: 0,
+      });
+    }
+    for (const entry of entries) {
+      await analyzeFile(entry);
+    }
+  }
+
+  // Keep items in the same order as the analyses: processes first, then objects
+  const orderedItems = [
+    ...items.filter(item => item.kind === "process"),
+    ...items.filter(item => item.kind === "object"),
+  ];
+
+  return {
+    files,
+    skippedEntries,
+    items: orderedItems,
+    processes: resolveProcessCalls(processes, orderedItems.filter(item => item.kind === "process")),
+    objects,
+    vboUsage: aggregateVBOUsage(processes, objects),
+    dependencyResolution: resolveDependencies(processes, objects),
+    parameterIssues: checkParameterContracts(processes, objects),
+  };
+}
+
+// Parses and analyzes one file. Releases are analyzed while they are read.
+async function analyzeDocument(
+  upload: UploadedFile,
+  source: SourceFile,
+  ruleConfig: RuleConfig,
+): Promise<{ kind: DocumentKind; result: InsertAnalysis["result"] }> {
+  const { document, release } = await readExport(upload.open(), source, ruleConfig);
+  const kind = classifyDocument(upload.fileName, document);
+  if (kind === "release") return { kind, result: release! };
+  if (kind === "object") return { kind, result: analyzeVBO(document.process, source, ruleConfig) };
+  return { kind, result: analyzeProcess(document.process, source, ruleConfig) };
+}
+
+// A saved analysis of the same content. Files without a Blue Prism extension
+// could hold any kind of export, so each kind is tried.
+async function findCached(
+  cache: AnalysisCache,
+  fileName: string,
+  contentHash: string,
+): Promise<{ kind: DocumentKind; result: InsertAnalysis["result"] } | undefined> {
+  const extensionKind = kindFromExtension(fileName);
+  const kinds: DocumentKind[] = extensionKind ? [extensionKind] : ["process", "object", "release"];
+  for (const kind of kinds) {
+    const result = await cache.find(kind, contentHash);
+    if (result) return { kind, result };
+  }
+  return undefined;
+}
+
+// A saved analysis relabelled with the file it is now served for
+export function withSource(kind: DocumentKind, result: InsertAnalysis["result"], source: SourceFile): InsertAnalysis["result"] {
+  if (kind !== "release") return { ...result, ...source } as ProcessAnalysis | VBOAnalysis;
+  const release = result as ReleaseAnalysis;
+  return {
+    ...release,
+    ...source,
+    processes: release.processes.map(process => ({ ...process, ...source })),
+    objects: release.objects.map(object => ({ ...object, ...source })),
+  };
+}
+
+function analysisName(kind: DocumentKind, result: InsertAnalysis["result"]): string {
+  if (kind === "release") return (result as ReleaseAnalysis).releaseName;
+  if (kind === "object") return (result as VBOAnalysis).vboName;
+  return (result as ProcessAnalysis).processName;
+}
+
+// Combines the VBO dependencies of every process into one entry per object,
+// most widely used first
+export function aggregateVBOUsage(processes: ProcessAnalysis[], objects: VBOAnalysis[]): VBOUsage[] {
+  const objectNames = new Set(objects.map(object => nameKey(object.vboName)));
+  const usage = new Map<string, VBOUsage>();
+
+  processes.forEach(process => {
+    (process.dependencies as VBODependency[]).forEach(vbo => {
+      const key = nameKey(vbo.name);
+      if (!usage.has(key)) {
+        usage.set(key, {
+          objectName: vbo.name,
+          inWorkspace: objectNames.has(key),
+          builtIn: isInternalBusinessObject(vbo.name),
+          usageCount: 0,
+          processes: [],
+          actions: [],
+        });
+      }
+
+      const entry = usage.get(key)!;
+      entry.usageCount += vbo.usageCount;
+      if (!entry.processes.includes(process.processName)) entry.processes.push(process.processName);
+
+      vbo.actions.forEach(action => {
+        let actionUsage = entry.actions.find(existing => nameKey(existing.name) === nameKey(action.name));
+        if (!actionUsage) {
+          actionUsage = { name: action.name, usageCount: 0, processes: [] };
+          entry.actions.push(actionUsage);
+        }
+        actionUsage.usageCount += action.usageCount;
+        if (!actionUsage.processes.includes(process.processName)) actionUsage.processes.push(process.processName);
+      });
+    });
+  });
+
+  return Array.from(usage.values())
+    .sort((a, b) => b.processes.length - a.processes.length || b.usageCount - a.usageCount);
+}
@@ -0,0 +1,142 @@
+import type { Readable } from "stream";
+import { StringDecoder } from "string_decoder";
+import sax from "sax";
+
+export interface ParseOptions {
+  // Called as each element closes, with the tag names from the root down to
+  // it. Returning true leaves the element out of the tree, so a caller can
+  // process large repeated elements one at a time as they stream past.
+  onElement?: (path: string[], node: any) => boolean | void;
+}
+
+// Parses an export into the same tree xml2js builds with its default options:
+// attributes under `$`, child elements in arrays by tag name, text under `_`
+// or as a plain string for elements with nothing else. Streams are parsed as
+// they are read, without holding the whole document as a string. Resolves to
+// null for an empty document.
+export async function parseXml(input: string | Readable, options: ParseOptions = {}): Promise<any> {
+  const builder = new TreeBuilder(options);
+
+  if (typeof input === "string") {
+    builder.write(input);
+  } else {
+    const decoder = new StringDecoder("utf8");
+    for await (const chunk of input) {
+      builder.write(typeof chunk === "string" ? chunk : decoder.write(chunk));
+    }
+    builder.write(decoder.end());
+  }
+
+  return builder.close();
+}
+
+interface OpenElement {
+  name: string;
+  node: any;
+  cdata: boolean;
+}
+
+class TreeBuilder {
+  private parser = sax.parser(true, { trim: false, normalize: false, xmlns: false });
+  private stack: OpenElement[] = [];
+  private result: any = null;
+  private error: Error | undefined;
+  private ended = false;
+
+  constructor(private options: ParseOptions) {
+    this.parser.onopentag = tag => {
+      const node: any = { _: "" };
+      Object.entries(tag.attributes as Record<string, string>).forEach(([name, value]) => {
+        node.$ = node.$ || {};
+        setKey(node.$, name, value);
+      });
+      this.stack.push({ name: tag.name, node, cdata: false });
+    };
+
+    this.parser.ontext = text => this.addText(text);
+    this.parser.oncdata = text => {
+      const open = this.addText(text);
+      if (open) open.cdata = true;
+    };
+
+    this.parser.onclosetag = () => this.closeElement();
+
+    this.parser.onerror = error => {
+      // Like xml2js, anything after the root element has closed is ignored
+      if (!this.ended && !this.error) this.error = error;
+      this.parser.resume();
+    };
+  }
+
+  write(chunk: string) {
+    if (this.ended || !chunk) return;
+    this.parser.write(chunk);
+    if (this.error) throw this.error;
+  }
+
+  close(): any {
+    if (!this.ended) {
+      this.parser.close();
+      // An empty document has no root element and parses to null
+      if (this.error && this.stack.length > 0) throw this.error;
+    }
+    return this.result;
+  }
+
+  private addText(text: string): OpenElement | undefined {
+    const open = this.stack[this.stack.length - 1];
+    if (open) open.node._ += text;
+    return open;
+  }
+
+  private closeElement() {
+    const { name, node, cdata } = this.stack.pop()!;
+
+    let value = node;
+    let emptyText = "";
+    if (/^\s*$/.test(node._) && !cdata) {
+      emptyText = node._;
+      delete node._;
+    } else if (Object.keys(node).length === 1) {
+      value = node._;
+    }
+    if (typeof value === "object" && Object.keys(value).length === 0) {
+      value = emptyText;
+    }
+
+    if (this.options.onElement?.([...this.stack.map(open => open.name), name], value)) return;
+
+    const parent = this.stack[this.stack.length - 1];
+    if (parent) {
+      if (Object.prototype.hasOwnProperty.call(parent.node, name)) {
+        parent.node[name].push(value);
+      } else {
+        setKey(parent.node, name, [value]);
+      }
+    } else {
+      this.result = {};
+      setKey(this.result, name, value);
+      this.ended = true;
+    }
+  }
+}
+
+// Assigns without treating names like __proto__ specially
+function setKey(target: any, key: string, value: any) {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+// Text content of the first child element with the given tag, or undefined.
+// xml2js returns either a plain string or an object with `_` for text nodes.
+export function childText(node: any, tag: string): string | undefined {
+  const child = node?.[tag]?.[0];
+  if (child === undefined || child === null) return undefined;
+  if (typeof child === "string") return child;
+  return typeof child._ === "string" ? child._ : "";
+}
+
+
+// The subsheet a stage belongs to. Stages on the main page carry no subsheetid.
+export function stageSubsheetId(stage: any): string | undefined {
+  return childText(stage, "subsheetid")?.trim() || undefined;
+}
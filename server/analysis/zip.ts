@@ -0,0 +1,144 @@
+import { inflateRawSync } from "zlib";
+
+export interface ZipEntry {
+  path: string;
+  content: Buffer;
+}
+
+export interface SkippedZipEntry {
+  path: string;
+  reason: string;
+}
+
+export interface ZipLimits {
+  maxEntries: number;
+  maxEntrySize: number;
+  maxTotalSize: number;
+}
+
+// Guards against zip bombs: archives are only ever expanded in memory
+export const DEFAULT_ZIP_LIMITS: ZipLimits = {
+  maxEntries: 1000,
+  maxEntrySize: 50 * 1024 * 1024,
+  maxTotalSize: 200 * 1024 * 1024,
+};
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// Reads the entries of a .zip archive held in memory. Directories are left
+// out; entries that cannot or should not be expanded (encrypted, unsupported
+// compression, over a size or count limit, rejected by `accept`) are returned
+// as skipped with the reason. Sizes are enforced on the actual decompressed
+// output, not the sizes the archive claims. Throws for archives that are not
+// readable at all.
+export function readZip(
+  archive: Buffer,
+  accept: (path: string) => string | undefined = () => undefined,
+  limits: ZipLimits = DEFAULT_ZIP_LIMITS,
+): { entries: ZipEntry[]; skipped: SkippedZipEntry[] } {
+  const end = findEndOfCentralDirectory(archive);
+  const entryCount = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const entries: ZipEntry[] = [];
+  const skipped: SkippedZipEntry[] = [];
+  let totalSize = 0;
+  let fileCount = 0;
+
+  for (let index = 0; index < entryCount; index++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Corrupt ZIP archive: bad central directory");
+    }
+
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const declaredSize = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    // Bit 11 marks UTF-8 names; older tools write code page 437
+    const path = archive
+      .toString(flags & 0x800 ? "utf8" : "latin1", offset + 46, offset + 46 + nameLength)
+      .replace(/\\/g, "/");
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith("/")) continue;
+
+    const skip = (reason: string) => skipped.push({ path, reason });
+
+    const rejection = accept(path);
+    if (rejection) {
+      skip(rejection);
+      continue;
+    }
+    if (++fileCount > limits.maxEntries) {
+      skip(`Archive has more than ${limits.maxEntries} entries`);
+      continue;
+    }
+    if (flags & 0x1) {
+      skip("Entry is encrypted");
+      continue;
+    }
+    if (method !== STORED && method !== DEFLATED) {
+      skip(`Unsupported compression method ${method}`);
+      continue;
+    }
+
+    const remaining = limits.maxTotalSize - totalSize;
+    const maxSize = Math.min(limits.maxEntrySize, remaining);
+    if (declaredSize > maxSize) {
+      skip(declaredSize > limits.maxEntrySize ? "Entry is larger than the size limit" : "Archive exceeds the total size limit");
+      continue;
+    }
+
+    let content: Buffer;
+    try {
+      const data = localData(archive, localOffset, compressedSize);
+      content = method === STORED ? data : inflateRawSync(data, { maxOutputLength: Math.max(maxSize, 1) });
+    } catch (error) {
+      skip(error instanceof Error && "code" in error && error.code === "ERR_BUFFER_TOO_LARGE"
+        ? "Entry decompresses beyond the size limit"
+        : `Cannot decompress entry: ${error instanceof Error ? error.message : "unknown error"}`);
+      continue;
+    }
+    if (content.length > maxSize) {
+      skip("Entry is larger than the size limit");
+      continue;
+    }
+
+    totalSize += content.length;
+    entries.push({ path, content });
+  }
+
+  return { entries, skipped };
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 65535 bytes at the very end
+  const earliest = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= earliest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error("Not a ZIP archive");
+}
+
+function localData(archive: Buffer, offset: number, compressedSize: number): Buffer {
+  if (offset + 30 > archive.length || archive.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+    throw new Error("bad local header");
+  }
+  const start = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+  if (start + compressedSize > archive.length) {
+    throw new Error("entry data is truncated");
+  }
+  return archive.subarray(start, start + compressedSize);
+}
@@ -0,0 +1,133 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import express from "express";
+import request from "supertest";
+import { registerRoutes } from "./routes";
+import { MemoryStorage } from "./storage";
+
+const PROCESS_FILE = "BPA Process - Invoice Acquisition Test Rig_1749835143181.bpprocess";
+const processXml = readFileSync(`attached_assets/${PROCESS_FILE}`);
+
+async function createApp() {
+  const app = express();
+  app.use(express.json());
+  await registerRoutes(app, new MemoryStorage());
+  return app;
+}
+
+test("saved analyses can be listed, read and deleted", async () => {
+  const app = await createApp();
+
+  const analyzed = await request(app).post("/api/analyze").attach("file", processXml, PROCESS_FILE).expect(200);
+  assert.equal(analyzed.body.processName, "Invoice Acquisition Test Rig");
+
+  const list = await request(app).get("/api/analyses").expect(200);
+  assert.equal(list.body.length, 1);
+  assert.equal(list.body[0].kind, "process");
+  assert.equal(list.body[0].name, "Invoice Acquisition Test Rig");
+  assert.equal(list.body[0].result, undefined);
+
+  const detail = await request(app).get(`/api/analyses/${list.body[0].id}`).expect(200);
+  assert.deepEqual(detail.body.result, analyzed.body);
+
+  await request(app).delete(`/api/analyses/${list.body[0].id}`).expect(204);
+  await request(app).get(`/api/analyses/${list.body[0].id}`).expect(404);
+  assert.deepEqual((await request(app).get("/api/analyses").expect(200)).body, []);
+});
+
+test("an unchanged upload is served from the cache", async () => {
+  const app = await createApp();
+
+  const first = await request(app).post("/api/analyze").attach("file", processXml, PROCESS_FILE).expect(200);
+  assert.equal(first.headers["x-cache"], "MISS");
+
+  // Line endings do not change the content hash
+  const crlf = Buffer.from(processXml.toString("utf-8").replace(/\r?\n/g, "\r\n"));
+  const second = await request(app).post("/api/analyze").attach("file", crlf, "renamed.bpprocess").expect(200);
+  assert.equal(second.headers["x-cache"], "HIT");
+  assert.equal(second.body.fileName, "renamed.bpprocess");
+  assert.equal(second.body.processName, first.body.processName);
+
+  const list = await request(app).get("/api/analyses").expect(200);
+  assert.equal(list.body.length, 1);
+});
+
+test("deleting the indexed analysis of a process indexes its previous analysis", async () => {
+  const app = await createApp();
+
+  const first = await request(app).post("/api/analyze").attach("file", processXml, PROCESS_FILE).expect(200);
+  const changed = Buffer.concat([processXml, Buffer.from("\n<!-- changed -->")]);
+  await request(app).post("/api/analyze").attach("file", changed, PROCESS_FILE).expect(200);
+
+  const [older, newer] = (await request(app).get("/api/analyses").expect(200)).body
+    .map((analysis: { id: number }) => analysis.id)
+    .sort((a: number, b: number) => a - b);
+  const whereUsed = async () => {
+    const response = await request(app)
+      .get("/api/where-used")
+      .query({ object: first.body.actionCalls[0].objectName })
+      .expect(200);
+    return new Set(response.body.map((callSite: { analysisId: number }) => callSite.analysisId));
+  };
+
+  assert.deepEqual(await whereUsed(), new Set([newer]));
+
+  await request(app).delete(`/api/analyses/${newer}`).expect(204);
+  assert.deepEqual(await whereUsed(), new Set([older]));
+
+  await request(app).delete(`/api/analyses/${older}`).expect(204);
+  assert.deepEqual(await whereUsed(), new Set());
+});
+
+test("objects sent to the process endpoint are rejected and not indexed", async () => {
+  const app = await createApp();
+
+  // A business object whose pages call MS Excel VBO Extended, like the process it is made from
+  const objectXml = Buffer.from(processXml.toString("utf-8").replace("<process ", '<process type="object" '));
+
+  await request(app).post("/api/analyze").attach("file", objectXml, "Test Rig.bpobject").expect(400);
+  await request(app)
+    .post("/api/analyze")
+    .attach("file", objectXml, { filename: "Test Rig.xml", contentType: "text/xml" })
+    .expect(400);
+
+  assert.deepEqual((await request(app).get("/api/analyses").expect(200)).body, []);
+  const whereUsed = await request(app).get("/api/where-used").query({ object: "MS Excel VBO Extended" }).expect(200);
+  assert.deepEqual(whereUsed.body, []);
+});
+
+test("a cached release describes the file it was uploaded as", async () => {
+  const app = await createApp();
+  const releaseXml = readFileSync("attached_assets/bprelease_test_1754143047045.bprelease");
+
+  await request(app).post("/api/analyze-release").attach("file", releaseXml, "first.bprelease").expect(200);
+  const cached = await request(app).post("/api/analyze-release").attach("file", releaseXml, "second.bprelease").expect(200);
+
+  assert.equal(cached.headers["x-cache"], "HIT");
+  assert.equal(cached.body.fileName, "second.bprelease");
+  for (const item of [...cached.body.processes, ...cached.body.objects]) {
+    assert.equal(item.fileName, "second.bprelease");
+  }
+});
+
+test("comparing a release with itself finds every item unchanged", async () => {
+  const app = await createApp();
+  const releaseXml = readFileSync("attached_assets/bprelease_test_1754143047045.bprelease");
+
+  const diff = await request(app)
+    .post("/api/diff-release")
+    .attach("old", releaseXml, "old.bprelease")
+    .attach("new", releaseXml, "new.bprelease")
+    .expect(200);
+
+  assert.equal(diff.body.oldReleaseName, diff.body.newReleaseName);
+  assert.ok(diff.body.items.length > 0);
+  assert.deepEqual(diff.body.summary, { added: 0, removed: 0, modified: 0, unchanged: diff.body.items.length });
+
+  await request(app)
+    .post("/api/diff-release")
+    .attach("old", releaseXml, "old.bprelease")
+    .attach("new", processXml, "new.bprelease")
+    .expect(400);
+});
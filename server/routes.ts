@@ -1,26 +1,208 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
+import { createReadStream } from "fs";
+import { unlink } from "fs/promises";
 import multer from "multer";
-import { parseString } from "xml2js";
-import { z } from "zod";
-import { type VBODependency, type VBOAction } from "@shared/schema";
+import { parseXml } from "./analysis/xml";
+import { analyzeProcess, type SourceFile } from "./analysis/process";
+import { analyzeVBO } from "./analysis/vbo";
+import { readExport, readReleaseContents } from "./analysis/release";
+import { loadRuleConfig } from "./analysis/rules";
+import { diffProcesses } from "./analysis/diff";
+import { diffReleases } from "./analysis/release-diff";
+import {
+  analyzeWorkspace,
+  classifyDocument,
+  kindFromExtension,
+  type AnalysisCache,
+  withSource,
+  type DocumentKind,
+} from "./analysis/workspace";
+import { analyzerVersion, hashXmlStream } from "./analysis/cache";
+import { buildCallSites, findActionCall } from "./analysis/where-used";
+import { assessImpact, type CallerStage } from "./analysis/impact";
+import { storage, type IStorage } from "./storage";
+import { limitedDiskStorage } from "./uploads";
+import type { ImpactReport, InsertAnalysis, StoredAnalysis, VBOAnalysis } from "@shared/schema";
+
+// Best-practice rule settings, read once at startup
+const ruleConfig = loadRuleConfig(process.env.RULES_CONFIG || "rules.config.json");
+
+// Saved results are reused only when they came from the same analyzer and rules
+const cacheVersion = analyzerVersion(ruleConfig);
+
+// Uploads are written to temporary files and streamed through the parser, so
+// the size limit bounds disk use rather than memory. Set MAX_UPLOAD_MB to
+// accept larger exports.
+const MAX_UPLOAD_MB = Number(process.env.MAX_UPLOAD_MB) || 50;
+const MAX_UPLOAD_SIZE = Math.floor(MAX_UPLOAD_MB * 1024 * 1024);
+const FILE_TOO_LARGE = `File is larger than the ${MAX_UPLOAD_MB}MB upload limit`;
 
 const upload = multer({ 
-  storage: multer.memoryStorage(),
+  storage: multer.diskStorage({}),
   fileFilter: (req, file, cb) => {
-    if (file.originalname.endsWith('.bpprocess') || file.originalname.endsWith('.bpobject') || file.mimetype === 'text/xml' || file.mimetype === 'application/xml') {
+    if (file.originalname.endsWith('.bpprocess') || file.originalname.endsWith('.bpobject') || file.originalname.endsWith('.bprelease') || file.mimetype === 'text/xml' || file.mimetype === 'application/xml') {
       cb(null, true);
     } else {
-      cb(new Error('Only .bpprocess and .bpobject files are allowed'));
+      cb(new Error('Only .bpprocess, .bpobject and .bprelease files are allowed'));
     }
   },
   limits: {
-    fileSize: 50 * 1024 * 1024 // 50MB limit
+    fileSize: MAX_UPLOAD_SIZE
   }
 });
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  
+// Batch uploads accept any file: unsupported, broken or oversized files are
+// reported per file in the workspace instead of rejecting the whole request
+const MAX_BATCH_FILES = 200;
+const batchUpload = multer({
+  storage: limitedDiskStorage(MAX_UPLOAD_SIZE),
+  limits: {
+    files: MAX_BATCH_FILES,
+  }
+});
+
+// Admin endpoints require `Authorization: Bearer <ADMIN_TOKEN>`, and are
+// disabled when the ADMIN_TOKEN environment variable is not set
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res.status(403).json({ message: "Admin endpoints are disabled; set ADMIN_TOKEN to enable them" });
+  }
+  if (req.headers.authorization !== `Bearer ${token}`) {
+    return res.status(401).json({ message: "Admin token required" });
+  }
+  next();
+}
+
+// Upload limits that reject the whole request answer 413 rather than 500
+const REQUEST_TOO_LARGE_CODES = new Set(["LIMIT_FILE_SIZE", "LIMIT_FILE_COUNT", "LIMIT_PART_COUNT"]);
+
+function uploadLimitErrors(error: unknown, _req: Request, res: Response, next: NextFunction) {
+  if (error instanceof multer.MulterError && REQUEST_TOO_LARGE_CODES.has(error.code)) {
+    return res.status(413).json({ message: error.code === "LIMIT_FILE_SIZE" ? FILE_TOO_LARGE : error.message });
+  }
+  next(error);
+}
+
+// The kind of export a parsed upload holds, or undefined when it is not one or
+// its root element contradicts its file extension
+function uploadedKind(file: Express.Multer.File, parsed: any): DocumentKind | undefined {
+  try {
+    return classifyDocument(file.originalname, parsed);
+  } catch {
+    return undefined;
+  }
+}
+
+function fileSource(file: Express.Multer.File): SourceFile {
+  return { fileName: file.originalname, fileSize: file.size };
+}
+
+// Removes the temporary files of an upload once the response is done
+function removeUploads(req: Request, res: Response, next: NextFunction) {
+  res.on("close", () => {
+    const files = req.files ? Object.values(req.files).flat() : [];
+    [req.file, ...files].forEach(file => {
+      if (file?.path) {
+        unlink(file.path).catch(error => console.error("Upload cleanup error:", error));
+      }
+    });
+  });
+  next();
+}
+
+export async function registerRoutes(app: Express, store: IStorage = storage): Promise<Server> {
+  app.use("/api", removeUploads);
+
+  // Makes a saved analysis the indexed version of the processes it contains
+  const indexCallSites = async (analysis: StoredAnalysis) => {
+    const { processNames, callSites } = buildCallSites(analysis.id, analysis.kind, analysis.result);
+    if (processNames.length > 0) {
+      await store.replaceCallSites(processNames, callSites);
+    }
+  };
+
+  // Indexes each of the processes from the newest saved analysis that still
+  // contains it. A process no analysis contains any more is left out, since
+  // deleting an analysis removes its call sites.
+  const reindexProcesses = async (processNames: string[]) => {
+    const pending = new Set(processNames);
+    for (const summary of await store.listAnalyses()) {
+      if (pending.size === 0) break;
+      if (summary.kind === "object" || (summary.kind === "process" && !pending.has(summary.name))) continue;
+
+      const analysis = await store.getAnalysis(summary.id);
+      if (!analysis) continue;
+      const { processNames: covered, callSites } = buildCallSites(analysis.id, analysis.kind, analysis.result);
+      const names = covered.filter(name => pending.has(name));
+      if (names.length === 0) continue;
+
+      await store.replaceCallSites(names, callSites.filter(callSite => names.includes(callSite.processName)));
+      names.forEach(name => pending.delete(name));
+    }
+  };
+
+  // The saved analysis of an identical file by the current analyzer, if there
+  // is one. A failed lookup just means analyzing again.
+  const findCached = async (kind: InsertAnalysis["kind"], contentHash: string): Promise<StoredAnalysis | undefined> => {
+    try {
+      const cached = await store.findCachedAnalysis(kind, contentHash, cacheVersion);
+      if (!cached) return undefined;
+      // The file may be an older version than the one indexed since
+      await indexCallSites(cached).catch(error => console.error("Where-used index error:", error));
+      return cached;
+    } catch (error) {
+      console.error("Cache lookup error:", error);
+      return undefined;
+    }
+  };
+
+  // Sends the saved result for an identical file, if there is one
+  const sendCached = async (
+    res: Response,
+    file: Express.Multer.File,
+    kind: InsertAnalysis["kind"],
+    contentHash: string,
+  ): Promise<boolean> => {
+    const cached = await findCached(kind, contentHash);
+    if (!cached) return false;
+    res.set("X-Cache", "HIT").json(withSource(kind, cached.result, fileSource(file)));
+    return true;
+  };
+
+  // Adds an analysis to the history and the where-used index. A storage
+  // failure is logged rather than failing the request, since the analysis
+  // itself succeeded.
+  const saveAnalysis = async (
+    source: SourceFile,
+    kind: InsertAnalysis["kind"],
+    name: string,
+    contentHash: string,
+    result: InsertAnalysis["result"],
+  ) => {
+    try {
+      const stored = await store.createAnalysis({
+        kind,
+        name,
+        fileName: source.fileName,
+        fileSize: source.fileSize,
+        contentHash,
+        analyzerVersion: cacheVersion,
+        result,
+      });
+      await indexCallSites(stored);
+    } catch (error) {
+      console.error("Save analysis error:", error);
+    }
+  };
+
+  // Batch uploads reuse and save analyses the same way as single uploads
+  const analysisCache: AnalysisCache = {
+    find: async (kind, contentHash) => (await findCached(kind, contentHash))?.result,
+    save: saveAnalysis,
+  };
+
   // Upload and analyze .bpprocess file
   app.post("/api/analyze", upload.single('file'), async (req, res) => {
     try {
@@ -28,46 +210,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      const xmlContent = req.file.buffer.toString('utf-8');
+      const extensionKind = kindFromExtension(req.file.originalname);
+      if (extensionKind && extensionKind !== "process") {
+        return res.status(400).json({ message: "Invalid file type. Please upload a .bpprocess file" });
+      }
+
+      const contentHash = await hashXmlStream(createReadStream(req.file.path));
+      if (await sendCached(res, req.file, "process", contentHash)) return;
       
       // Parse XML
-      const result = await new Promise<any>((resolve, reject) => {
-        parseString(xmlContent, (err, result) => {
-          if (err) reject(err);
-          else resolve(result);
-        });
-      });
+      const result = await parseXml(createReadStream(req.file.path));
 
-      if (!result.process) {
+      // Objects are <process> elements too, so the root's type is checked as well
+      if (uploadedKind(req.file, result) !== "process") {
         return res.status(400).json({ message: "Invalid .bpprocess file format" });
       }
 
-      const processData = result.process.$;
-      const processName = processData.name || "Unknown Process";
-      
-      // Extract stages and subsheets
-      const stages = result.process.stage || [];
-      const subsheets = result.process.subsheet || [];
-      
-      // Extract dependencies
-      const dependencies = extractDependencies(result.process);
-      
-      // Calculate stats
-      const vbos = dependencies;
-      const totalActions = dependencies.reduce((sum, vbo) => sum + vbo.actions.length, 0);
-      
-      const analysisData = {
+      const analysisData = analyzeProcess(result.process, {
         fileName: req.file.originalname,
         fileSize: req.file.size,
-        processName,
-        totalStages: stages.length,
-        vboCount: vbos.length,
-        actionCount: totalActions,
-        subsheetCount: subsheets.length,
-        dependencies: dependencies,
-      };
+      }, ruleConfig);
 
-      res.json(analysisData);
+      await saveAnalysis(fileSource(req.file), "process", analysisData.processName, contentHash, analysisData);
+
+      res.set("X-Cache", "MISS").json(analysisData);
     } catch (error) {
       console.error("Analysis error:", error);
       res.status(500).json({ 
@@ -89,45 +255,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid file type. Please upload a .bpobject file" });
       }
 
-      const xmlContent = req.file.buffer.toString('utf-8');
+      const contentHash = await hashXmlStream(createReadStream(req.file.path));
+      if (await sendCached(res, req.file, "object", contentHash)) return;
       
       // Parse XML
-      const result = await new Promise<any>((resolve, reject) => {
-        parseString(xmlContent, (err, result) => {
-          if (err) reject(err);
-          else resolve(result);
-        });
-      });
+      const result = await parseXml(createReadStream(req.file.path));
 
-      if (!result.process) {
+      if (uploadedKind(req.file, result) !== "object") {
         return res.status(400).json({ message: "Invalid .bpobject file format" });
       }
 
-      const processData = result.process.$;
-      const vboName = processData.name || "Unknown VBO";
-      const version = processData.version || "1.0";
-      const narrative = processData.narrative || "";
-      
-      // Extract actions (SubSheetInfo stages)
-      const stages = result.process.stage || [];
-      const actions = extractVBOActions(stages);
-      
-      // Extract elements from appdef
-      const elements = extractVBOElements(result.process.appdef || []);
-      
-      const analysisData = {
+      const analysisData = analyzeVBO(result.process, {
         fileName: req.file.originalname,
         fileSize: req.file.size,
-        vboName,
-        version,
-        narrative,
-        actionCount: actions.length,
-        elementCount: elements.length,
-        actions,
-        elements,
-      };
+      }, ruleConfig);
+
+      await saveAnalysis(fileSource(req.file), "object", analysisData.vboName, contentHash, analysisData);
 
-      res.json(analysisData);
+      res.set("X-Cache", "MISS").json(analysisData);
     } catch (error) {
       console.error("VBO Analysis error:", error);
       res.status(500).json({ 
@@ -138,235 +283,373 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
+  // Upload and analyze .bprelease package
+  app.post("/api/analyze-release", upload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      if (!req.file.originalname.endsWith('.bprelease')) {
+        return res.status(400).json({ message: "Invalid file type. Please upload a .bprelease file" });
+      }
+
+      const contentHash = await hashXmlStream(createReadStream(req.file.path));
+      if (await sendCached(res, req.file, "release", contentHash)) return;
+
+      // Parse XML, analyzing each process and object as it is read
+      const { release: analysisData } = await readExport(createReadStream(req.file.path), {
+        fileName: req.file.originalname,
+        fileSize: req.file.size,
+      }, ruleConfig);
 
-function extractDependencies(process: any): VBODependency[] {
-  const vbos: Map<string, VBODependency> = new Map();
-  const stages = process.stage || [];
-  const subsheets = process.subsheet || [];
+      if (!analysisData) {
+        return res.status(400).json({ message: "Invalid .bprelease file format" });
+      }
 
-  // Extract from main process stages
-  extractFromStages(stages, vbos, "Main Process");
+      await saveAnalysis(fileSource(req.file), "release", analysisData.releaseName, contentHash, analysisData);
 
-  // Extract from subsheets
-  subsheets.forEach((subsheet: any) => {
-    const subsheetName = subsheet.name?.[0] || "Unknown Subsheet";
-    const subsheetStages = findStagesBySubsheet(stages, subsheet.$.subsheetid);
-    extractFromStages(subsheetStages, vbos, subsheetName);
+      res.set("X-Cache", "MISS").json(analysisData);
+    } catch (error) {
+      console.error("Release Analysis error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to analyze release file" 
+      });
+    }
   });
 
-  return Array.from(vbos.values());
-}
 
-function extractFromStages(stages: any[], vbos: Map<string, VBODependency>, location: string) {
-  stages.forEach((stage: any) => {
-    const stageData = stage.$;
-    const stageName = stageData.name;
-    
-    // Look for resource tags that define VBO usage
-    if (stage.resource && stage.resource.length > 0) {
-      const resource = stage.resource[0].$;
-      const vboName = resource.object;
-      const actionName = resource.action;
-      
-      if (vboName && actionName) {
-        const vboKey = vboName;
-        
-        // Get or create VBO
-        if (!vbos.has(vboKey)) {
-          vbos.set(vboKey, {
-            id: vboKey,
-            name: vboName,
-            usageCount: 0,
-            locations: [],
-            actions: [],
-            description: `Visual Business Object: ${vboName}`
-          });
+
+  // Upload and analyze many files (or a whole folder) as one workspace
+  app.post("/api/analyze-batch", batchUpload.array('files', MAX_BATCH_FILES), async (req, res) => {
+    try {
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+
+      const workspace = await analyzeWorkspace(files.map(file => ({
+        fileName: file.originalname,
+        fileSize: file.size,
+        open: () => createReadStream(file.path),
+        error: file.path ? undefined : FILE_TOO_LARGE,
+      })), ruleConfig, analysisCache);
+
+      res.json(workspace);
+    } catch (error) {
+      console.error("Batch analysis error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to analyze files" 
+      });
+    }
+  });
+
+
+
+  // Compare two versions of the same .bpprocess or .bpobject file
+  app.post("/api/diff", upload.fields([{ name: 'old', maxCount: 1 }, { name: 'new', maxCount: 1 }]), async (req, res) => {
+    try {
+      const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+      const oldFile = files?.old?.[0];
+      const newFile = files?.new?.[0];
+      if (!oldFile || !newFile) {
+        return res.status(400).json({ message: "Upload both an old and a new file" });
+      }
+
+      const kind = kindFromExtension(oldFile.originalname);
+      if ((kind !== "process" && kind !== "object") || kindFromExtension(newFile.originalname) !== kind) {
+        return res.status(400).json({ message: "Both files must be .bpprocess files or both .bpobject files" });
+      }
+
+      // Parse XML, one file at a time
+      const invalid = `Invalid .${kind === "process" ? "bpprocess" : "bpobject"} file format`;
+      const oldResult = await parseXml(createReadStream(oldFile.path));
+      if (!oldResult?.process) {
+        return res.status(400).json({ message: invalid });
+      }
+      const newResult = await parseXml(createReadStream(newFile.path));
+      if (!newResult?.process) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      res.json({
+        oldFileName: oldFile.originalname,
+        newFileName: newFile.originalname,
+        ...diffProcesses(oldResult.process, newResult.process, kind),
+      });
+    } catch (error) {
+      console.error("Diff error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to compare files" 
+      });
+    }
+  });
+
+
+
+  // Compare two .bprelease packages item by item
+  app.post("/api/diff-release", upload.fields([{ name: 'old', maxCount: 1 }, { name: 'new', maxCount: 1 }]), async (req, res) => {
+    try {
+      const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+      const oldFile = files?.old?.[0];
+      const newFile = files?.new?.[0];
+      if (!oldFile || !newFile) {
+        return res.status(400).json({ message: "Upload both an old and a new release" });
+      }
+
+      if (!oldFile.originalname.endsWith('.bprelease') || !newFile.originalname.endsWith('.bprelease')) {
+        return res.status(400).json({ message: "Invalid file type. Please upload two .bprelease files" });
+      }
+
+      // Parse one release at a time, keeping only the header and items of each
+      const oldRelease = await readReleaseContents(createReadStream(oldFile.path));
+      if (!oldRelease) {
+        return res.status(400).json({ message: "Invalid .bprelease file format" });
+      }
+      const newRelease = await readReleaseContents(createReadStream(newFile.path));
+      if (!newRelease) {
+        return res.status(400).json({ message: "Invalid .bprelease file format" });
+      }
+
+      res.json({
+        oldFileName: oldFile.originalname,
+        newFileName: newFile.originalname,
+        ...diffReleases(oldRelease, newRelease),
+      });
+    } catch (error) {
+      console.error("Release diff error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to compare releases" 
+      });
+    }
+  });
+
+
+
+  // Saved analyses, newest first, without their results
+  app.get("/api/analyses", async (req, res) => {
+    try {
+      res.json(await store.listAnalyses());
+    } catch (error) {
+      console.error("List analyses error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to load analyses" 
+      });
+    }
+  });
+
+
+
+  // One saved analysis with its full result
+  app.get("/api/analyses/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ message: "Invalid analysis id" });
+      }
+
+      const analysis = await store.getAnalysis(id);
+      if (!analysis) {
+        return res.status(404).json({ message: "Analysis not found" });
+      }
+
+      res.json(analysis);
+    } catch (error) {
+      console.error("Get analysis error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to load analysis" 
+      });
+    }
+  });
+
+
+
+  // Remove a saved analysis from the history
+  app.delete("/api/analyses/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ message: "Invalid analysis id" });
+      }
+
+      const analysis = await store.getAnalysis(id);
+      if (!analysis || !await store.deleteAnalysis(id)) {
+        return res.status(404).json({ message: "Analysis not found" });
+      }
+      // Earlier analyses of the same processes take over in the where-used index
+      const { processNames } = buildCallSites(analysis.id, analysis.kind, analysis.result);
+      await reindexProcesses(processNames).catch(error => console.error("Where-used index error:", error));
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Delete analysis error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to delete analysis" 
+      });
+    }
+  });
+
+
+
+  // Every Action stage in the indexed processes that calls an object, or one
+  // of its actions. Names match case-insensitively.
+  app.get("/api/where-used", async (req, res) => {
+    try {
+      const { object, action } = req.query;
+      if (typeof object !== "string" || !object.trim()) {
+        return res.status(400).json({ message: "Give the object name to search for" });
+      }
+      if (action !== undefined && typeof action !== "string") {
+        return res.status(400).json({ message: "Give at most one action name" });
+      }
+
+      res.json(await store.findCallSites(object, action?.trim() || undefined));
+    } catch (error) {
+      console.error("Where-used error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to search the where-used index" 
+      });
+    }
+  });
+
+
+
+  // Impact of a new .bpobject version on the processes that call it. The
+  // previous version is the `old` upload if given, otherwise the latest saved
+  // analysis of the object with different content.
+  app.post("/api/impact", upload.fields([{ name: 'file', maxCount: 1 }, { name: 'old', maxCount: 1 }]), async (req, res) => {
+    try {
+      const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+      const newFile = files?.file?.[0];
+      const oldFile = files?.old?.[0];
+      if (!newFile) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      if (!newFile.originalname.endsWith('.bpobject') || (oldFile && !oldFile.originalname.endsWith('.bpobject'))) {
+        return res.status(400).json({ message: "Invalid file type. Please upload .bpobject files" });
+      }
+
+      // Parse XML
+      const result = await parseXml(createReadStream(newFile.path));
+
+      if (!result?.process) {
+        return res.status(400).json({ message: "Invalid .bpobject file format" });
+      }
+
+      const after = analyzeVBO(result.process, {
+        fileName: newFile.originalname,
+        fileSize: newFile.size,
+      }, ruleConfig);
+
+      let before: VBOAnalysis;
+      let baseline: ImpactReport["baseline"];
+      if (oldFile) {
+        const oldResult = await parseXml(createReadStream(oldFile.path));
+        if (!oldResult?.process) {
+          return res.status(400).json({ message: "Invalid .bpobject file format" });
         }
-        
-        const vbo = vbos.get(vboKey)!;
-        vbo.usageCount++;
-        if (!vbo.locations.includes(location)) {
-          vbo.locations.push(location);
+        before = analyzeVBO(oldResult.process, {
+          fileName: oldFile.originalname,
+          fileSize: oldFile.size,
+        }, ruleConfig);
+        baseline = { source: "upload", fileName: before.fileName, version: before.version };
+      } else {
+        const contentHash = await hashXmlStream(createReadStream(newFile.path));
+        const previous = await store.findPreviousAnalysis("object", after.vboName, contentHash);
+        if (!previous) {
+          return res.status(400).json({
+            message: `No earlier version of ${after.vboName} has been analyzed. Upload the previous version as well.`,
+          });
         }
+        before = previous.result as VBOAnalysis;
+        baseline = {
+          source: "history",
+          fileName: previous.fileName,
+          version: before.version,
+          analysisId: previous.id,
+          analyzedAt: new Date(previous.createdAt).toISOString(),
+        };
+      }
 
-        // Create unique action key
-        const actionKey = `${actionName}-${vboName}`;
-        
-        // Check if action already exists in this VBO
-        const existingAction = vbo.actions.find(action => action.name === actionName);
-        
-        if (!existingAction) {
-          // Add new action to this VBO
-          vbo.actions.push({
-            id: actionKey,
-            name: actionName,
-            usageCount: 1,
-            locations: [location],
-            description: `Action: ${actionName}`
-          });
-        } else {
-          // Update existing action
-          existingAction.usageCount++;
-          if (!existingAction.locations.includes(location)) {
-            existingAction.locations.push(location);
-          }
+      // Look up each caller's parameter mappings in its saved analysis
+      const analysesById = new Map<number, StoredAnalysis | undefined>();
+      const callers: CallerStage[] = [];
+      for (const callSite of await store.findCallSites(after.vboName)) {
+        if (!analysesById.has(callSite.analysisId)) {
+          analysesById.set(callSite.analysisId, await store.getAnalysis(callSite.analysisId));
         }
+        const analysis = analysesById.get(callSite.analysisId);
+        callers.push({ callSite, call: analysis && findActionCall(analysis, callSite) });
       }
+
+      const report: ImpactReport = {
+        objectName: after.vboName,
+        fileName: after.fileName,
+        version: after.version,
+        baseline,
+        ...assessImpact(before, after, callers),
+      };
+      res.json(report);
+    } catch (error) {
+      console.error("Impact analysis error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to analyze the impact" 
+      });
     }
   });
-}
 
-function findStagesBySubsheet(stages: any[], subsheetId: string): any[] {
-  return stages.filter(stage => stage.$.subsheetid === subsheetId);
-}
 
-function extractVBOName(stageName: string): string {
-  // Extract VBO name from stage name
-  if (stageName.includes("Excel")) return "MS Excel VBO";
-  if (stageName.includes("Email")) return "Email - POP3/SMTP";
-  if (stageName.includes("Collection")) return "Utility - Collection Manipulation";
-  if (stageName.includes("SAP")) return "SAP Application Server";
-  if (stageName.includes("File")) return "Utility - File Management";
-  if (stageName.includes("String")) return "Utility - Strings";
-  if (stageName.includes("Environment")) return "Utility - Environment";
-  if (stageName.includes("Math")) return "Utility - Math";
-  if (stageName.includes("Date")) return "Utility - Date and Time";
-  if (stageName.includes("Web")) return "Web API";
-  if (stageName.includes("Database")) return "Database";
-  
-  return stageName;
-}
 
-function extractActionName(stageName: string): string {
-  // Extract action name from full stage name
-  const parts = stageName.split(/\s+/);
-  if (parts.length > 1) {
-    // Remove common prefixes like [Excel], [Email], etc.
-    const cleaned = stageName.replace(/^\[.*?\]\s*/, "");
-    return cleaned || stageName;
-  }
-  return stageName;
-}
+  // Rebuild the where-used index from the saved analyses, oldest first so
+  // the latest analysis of each process ends up indexed
+  app.post("/api/admin/where-used/rebuild", requireAdmin, async (req, res) => {
+    try {
+      const summaries = (await store.listAnalyses()).sort((a, b) => a.id - b.id);
+      let indexed = 0;
+      for (const summary of summaries) {
+        const analysis = await store.getAnalysis(summary.id);
+        if (analysis && analysis.kind !== "object") {
+          await indexCallSites(analysis);
+          indexed++;
+        }
+      }
 
-function extractVBOActions(stages: any[]): any[] {
-  const actions: any[] = [];
-  
-  stages.forEach((stage: any) => {
-    const stageData = stage.$;
-    const stageType = stageData.type;
-    
-    if (stageType === "SubSheetInfo") {
-      const name = stageData.name;
-      const id = stageData.stageid;
-      const narrative = stage.narrative?.[0] || "";
-      
-      // Extract inputs and outputs
-      const inputs = (stage.input || []).map((input: any) => ({
-        name: input.$.name || "",
-        type: input.$.type || "text",
-        description: input.$.description || "",
-      }));
-
-      const outputs = (stage.output || []).map((output: any) => ({
-        name: output.$.name || "",
-        type: output.$.type || "text", 
-        description: output.$.description || "",
-      }));
-
-      actions.push({
-        id,
-        name,
-        type: stageType,
-        description: narrative.trim() || undefined,
-        inputs: inputs.length > 0 ? inputs : undefined,
-        outputs: outputs.length > 0 ? outputs : undefined,
+      res.json({ indexed });
+    } catch (error) {
+      console.error("Where-used rebuild error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to rebuild the where-used index" 
       });
     }
   });
-  
-  return actions;
-}
 
-function extractVBOElements(appdefArray: any[]): any[] {
-  const elements: any[] = [];
-  
-  if (!appdefArray || appdefArray.length === 0) {
-    return elements;
-  }
-  
-  const appdef = appdefArray[0];
-  if (appdef.element) {
-    extractElementsRecursive(appdef.element, elements, "");
-  }
-  
-  return elements;
-}
 
-function extractElementsRecursive(elementArray: any[], elements: any[], parentPath: string, parentId?: string): void {
-  if (!elementArray) return;
-  
-  elementArray.forEach((element: any) => {
-    const name = element.$.name;
-    const id = element.id?.[0];
-    const type = element.type?.[0] || element.$.type || "element";
-    
-    if (name && id) {
-      const currentPath = parentPath ? `${parentPath} - ${name}` : name;
-      
-      // Extract attributes
-      const attributes: Record<string, any> = {};
-      if (element.attributes && element.attributes[0] && element.attributes[0].attribute) {
-        element.attributes[0].attribute.forEach((attr: any) => {
-          const attrName = attr.$.name;
-          const processValue = attr.ProcessValue?.[0];
-          if (attrName && processValue) {
-            attributes[attrName] = {
-              datatype: processValue.$.datatype,
-              value: processValue.$.value,
-              inuse: attr.$.inuse === "True",
-            };
-          }
-        });
-      }
-
-      elements.push({
-        id,
-        name,
-        type,
-        parentId,
-        path: currentPath,
-        attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
-      });
 
-      // Process child elements
-      if (element.element) {
-        extractElementsRecursive(element.element, elements, currentPath, id);
-      }
-      
-      // Process groups
-      if (element.group) {
-        element.group.forEach((group: any) => {
-          const groupName = group.$.name;
-          const groupId = group.id?.[0];
-          if (groupName && groupId) {
-            const groupPath = `${currentPath} - ${groupName}`;
-            elements.push({
-              id: groupId,
-              name: groupName,
-              type: "group",
-              parentId: id,
-              path: groupPath,
-            });
-            
-            if (group.element) {
-              extractElementsRecursive(group.element, elements, groupPath, groupId);
-            }
-          }
-        });
+  // Forget cached results so the next upload of those files is analyzed
+  // again. Send `contentHash` to invalidate one file, or nothing for all.
+  // Saved analyses stay in the history.
+  app.post("/api/admin/cache/invalidate", requireAdmin, async (req, res) => {
+    try {
+      const contentHash = req.body?.contentHash;
+      if (contentHash !== undefined && typeof contentHash !== "string") {
+        return res.status(400).json({ message: "contentHash must be a string" });
       }
+
+      const invalidated = await store.invalidateCachedAnalyses(contentHash);
+      res.json({ invalidated });
+    } catch (error) {
+      console.error("Cache invalidation error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to invalidate the cache" 
+      });
     }
   });
+
+
+
+  app.use("/api", uploadLimitErrors);
+
+  const httpServer = createServer(app);
+  return httpServer;
 }
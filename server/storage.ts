@@ -1,10 +1,212 @@
-// Storage interface simplified - no persistence needed since history is removed
+import { and, asc, desc, eq, getTableColumns, inArray, isNull, ne } from "drizzle-orm";
+import {
+  analyses,
+  vboCallSites,
+  type AnalysisSummary,
+  type InsertAnalysis,
+  type StoredAnalysis,
+  type VBOCallSite,
+} from "@shared/schema";
+import { nameKey } from "./analysis/dependencies";
+
+type AnalysisKind = InsertAnalysis["kind"];
+
+// Saved analyses. Listing returns metadata only; the full result is loaded
+// one analysis at a time. findCachedAnalysis returns the newest analysis of a
+// file that has not been invalidated; invalidating keeps the history intact.
+// findPreviousAnalysis returns the newest saved analysis of the same name with
+// different content, i.e. the version before an upload. Call sites form the
+// where-used index: replaceCallSites swaps out everything
+// indexed for the given processes, so each process is indexed once.
 export interface IStorage {
-  // No storage methods needed as we're not persisting analyses
+  createAnalysis(analysis: InsertAnalysis): Promise<StoredAnalysis>;
+  listAnalyses(): Promise<AnalysisSummary[]>;
+  getAnalysis(id: number): Promise<StoredAnalysis | undefined>;
+  deleteAnalysis(id: number): Promise<boolean>;
+  findCachedAnalysis(kind: AnalysisKind, contentHash: string, analyzerVersion: string): Promise<StoredAnalysis | undefined>;
+  invalidateCachedAnalyses(contentHash?: string): Promise<number>;
+  findPreviousAnalysis(kind: AnalysisKind, name: string, contentHash: string): Promise<StoredAnalysis | undefined>;
+  replaceCallSites(processNames: string[], callSites: VBOCallSite[]): Promise<void>;
+  findCallSites(objectName: string, actionName?: string): Promise<VBOCallSite[]>;
+}
+
+function toSummary({ result, ...summary }: StoredAnalysis): AnalysisSummary {
+  return summary;
 }
 
+function compareCallSites(a: VBOCallSite, b: VBOCallSite): number {
+  return a.processName.localeCompare(b.processName)
+    || a.page.localeCompare(b.page)
+    || a.stageName.localeCompare(b.stageName);
+}
+
+// Keeps analyses for the lifetime of the server process. Used when no
+// database is configured, and by anything that needs storage without one.
 export class MemoryStorage implements IStorage {
-  // No methods needed for storage since we're not persisting data
+  private analyses = new Map<number, StoredAnalysis>();
+  private callSites: VBOCallSite[] = [];
+  private nextId = 1;
+
+  async createAnalysis(analysis: InsertAnalysis): Promise<StoredAnalysis> {
+    const now = new Date();
+    const stored: StoredAnalysis = { ...analysis, id: this.nextId++, createdAt: now, updatedAt: now, invalidatedAt: null };
+    this.analyses.set(stored.id, stored);
+    return stored;
+  }
+
+  async listAnalyses(): Promise<AnalysisSummary[]> {
+    return Array.from(this.analyses.values())
+      .sort((a, b) => b.id - a.id)
+      .map(toSummary);
+  }
+
+  async getAnalysis(id: number): Promise<StoredAnalysis | undefined> {
+    return this.analyses.get(id);
+  }
+
+  async deleteAnalysis(id: number): Promise<boolean> {
+    this.callSites = this.callSites.filter(callSite => callSite.analysisId !== id);
+    return this.analyses.delete(id);
+  }
+
+  async findCachedAnalysis(kind: AnalysisKind, contentHash: string, analyzerVersion: string): Promise<StoredAnalysis | undefined> {
+    return Array.from(this.analyses.values())
+      .filter(analysis => analysis.kind === kind
+        && analysis.contentHash === contentHash
+        && analysis.analyzerVersion === analyzerVersion
+        && !analysis.invalidatedAt)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async invalidateCachedAnalyses(contentHash?: string): Promise<number> {
+    const now = new Date();
+    let count = 0;
+    this.analyses.forEach(analysis => {
+      if (analysis.invalidatedAt || (contentHash && analysis.contentHash !== contentHash)) return;
+      analysis.invalidatedAt = now;
+      analysis.updatedAt = now;
+      count++;
+    });
+    return count;
+  }
+
+  async findPreviousAnalysis(kind: AnalysisKind, name: string, contentHash: string): Promise<StoredAnalysis | undefined> {
+    return Array.from(this.analyses.values())
+      .filter(analysis => analysis.kind === kind && analysis.name === name && analysis.contentHash !== contentHash)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async replaceCallSites(processNames: string[], callSites: VBOCallSite[]): Promise<void> {
+    const replaced = new Set(processNames);
+    this.callSites = this.callSites
+      .filter(callSite => !replaced.has(callSite.processName))
+      .concat(callSites);
+  }
+
+  async findCallSites(objectName: string, actionName?: string): Promise<VBOCallSite[]> {
+    return this.callSites
+      .filter(callSite => nameKey(callSite.objectName) === nameKey(objectName)
+        && (actionName === undefined || nameKey(callSite.actionName) === nameKey(actionName)))
+      .sort(compareCallSites);
+  }
+}
+
+const { result: _result, ...summaryColumns } = getTableColumns(analyses);
+const { id: _id, objectKey: _objectKey, actionKey: _actionKey, ...callSiteColumns } = getTableColumns(vboCallSites);
+
+// Keeps analyses in PostgreSQL. The connection is only opened when this
+// storage is created, since server/db.ts requires DATABASE_URL.
+export class DatabaseStorage implements IStorage {
+  private db = import("./db").then(module => module.db);
+
+  async createAnalysis(analysis: InsertAnalysis): Promise<StoredAnalysis> {
+    const db = await this.db;
+    const [stored] = await db.insert(analyses).values(analysis).returning();
+    return stored;
+  }
+
+  async listAnalyses(): Promise<AnalysisSummary[]> {
+    const db = await this.db;
+    return db.select(summaryColumns).from(analyses).orderBy(desc(analyses.id));
+  }
+
+  async getAnalysis(id: number): Promise<StoredAnalysis | undefined> {
+    const db = await this.db;
+    const [stored] = await db.select().from(analyses).where(eq(analyses.id, id));
+    return stored;
+  }
+
+  async deleteAnalysis(id: number): Promise<boolean> {
+    const db = await this.db;
+    const deleted = await db.delete(analyses).where(eq(analyses.id, id)).returning({ id: analyses.id });
+    return deleted.length > 0;
+  }
+
+  async findCachedAnalysis(kind: AnalysisKind, contentHash: string, analyzerVersion: string): Promise<StoredAnalysis | undefined> {
+    const db = await this.db;
+    const [stored] = await db.select().from(analyses)
+      .where(and(
+        eq(analyses.kind, kind),
+        eq(analyses.contentHash, contentHash),
+        eq(analyses.analyzerVersion, analyzerVersion),
+        isNull(analyses.invalidatedAt),
+      ))
+      .orderBy(desc(analyses.id))
+      .limit(1);
+    return stored;
+  }
+
+  async invalidateCachedAnalyses(contentHash?: string): Promise<number> {
+    const db = await this.db;
+    const now = new Date();
+    const invalidated = await db.update(analyses)
+      .set({ invalidatedAt: now, updatedAt: now })
+      .where(and(
+        isNull(analyses.invalidatedAt),
+        contentHash ? eq(analyses.contentHash, contentHash) : undefined,
+      ))
+      .returning({ id: analyses.id });
+    return invalidated.length;
+  }
+
+  async findPreviousAnalysis(kind: AnalysisKind, name: string, contentHash: string): Promise<StoredAnalysis | undefined> {
+    const db = await this.db;
+    const [stored] = await db.select().from(analyses)
+      .where(and(
+        eq(analyses.kind, kind),
+        eq(analyses.name, name),
+        ne(analyses.contentHash, contentHash),
+      ))
+      .orderBy(desc(analyses.id))
+      .limit(1);
+    return stored;
+  }
+
+  async replaceCallSites(processNames: string[], callSites: VBOCallSite[]): Promise<void> {
+    const db = await this.db;
+    await db.transaction(async tx => {
+      if (processNames.length > 0) {
+        await tx.delete(vboCallSites).where(inArray(vboCallSites.processName, processNames));
+      }
+      if (callSites.length > 0) {
+        await tx.insert(vboCallSites).values(callSites.map(callSite => ({
+          ...callSite,
+          objectKey: nameKey(callSite.objectName),
+          actionKey: nameKey(callSite.actionName),
+        })));
+      }
+    });
+  }
+
+  async findCallSites(objectName: string, actionName?: string): Promise<VBOCallSite[]> {
+    const db = await this.db;
+    return db.select(callSiteColumns).from(vboCallSites)
+      .where(and(
+        eq(vboCallSites.objectKey, nameKey(objectName)),
+        actionName !== undefined ? eq(vboCallSites.actionKey, nameKey(actionName)) : undefined,
+      ))
+      .orderBy(asc(vboCallSites.processName), asc(vboCallSites.page), asc(vboCallSites.stageName));
+  }
 }
 
-export const storage = new MemoryStorage();
+export const storage: IStorage = process.env.DATABASE_URL ? new DatabaseStorage() : new MemoryStorage();
@@ -0,0 +1,41 @@
+import { createWriteStream } from "fs";
+import { unlink } from "fs/promises";
+import { randomBytes } from "crypto";
+import os from "os";
+import path from "path";
+import { pipeline } from "stream/promises";
+import type { StorageEngine } from "multer";
+
+// Disk storage with a per-file size limit that does not fail the request. The
+// rest of a file over the limit is read and discarded, and the file comes
+// through without a path and with its full size, so a batch can record it as
+// failed and carry on with the other files.
+export function limitedDiskStorage(maxFileSize: number): StorageEngine {
+  return {
+    _handleFile(_req, file, cb) {
+      const filePath = path.join(os.tmpdir(), `upload-${randomBytes(16).toString("hex")}`);
+      let size = 0;
+
+      pipeline(
+        file.stream,
+        async function* (chunks: AsyncIterable<Buffer>) {
+          for await (const chunk of chunks) {
+            size += chunk.length;
+            if (size <= maxFileSize) yield chunk;
+          }
+        },
+        createWriteStream(filePath),
+      )
+        .then(() => size <= maxFileSize ? { path: filePath, size } : unlink(filePath).then(() => ({ size })))
+        .then(info => cb(null, info), error => {
+          unlink(filePath).catch(() => {});
+          cb(error);
+        });
+    },
+
+    _removeFile(_req, file, cb) {
+      if (!file.path) return cb(null);
+      unlink(file.path).then(() => cb(null), cb);
+    },
+  };
+}
@@ -1,31 +1,659 @@
+import { pgTable, serial, text, integer, jsonb, timestamp, index } from "drizzle-orm/pg-core";
 import { z } from "zod";
 
+// A single Action stage calling a business object action, with the parameters
+// it maps: inputs carry the passed expression, outputs the receiving data item.
+export const actionCallSchema = z.object({
+  stageId: z.string(),
+  stageName: z.string(),
+  page: z.string(),
+  objectName: z.string(),
+  actionName: z.string(),
+  inputs: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+    expr: z.string(),
+  })),
+  outputs: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+    stage: z.string(),
+  })),
+});
+
+// Calls to other processes made through Process stages. calleeName is only set
+// when the called process is part of the same release or upload batch.
+export const processCallSchema = z.object({
+  stageId: z.string(),
+  stageName: z.string(),
+  page: z.string(),
+  processId: z.string(),
+  calleeName: z.string().optional(),
+});
+
+// Data and Collection stages with the stages that read or write them.
+// Scope is "page" when the item is hidden from other pages.
+export const dataItemUsageSchema = z.object({
+  stageId: z.string(),
+  stageName: z.string(),
+  stageType: z.string(),
+  page: z.string(),
+});
+
+export const dataItemSchema = z.object({
+  stageId: z.string(),
+  name: z.string(),
+  kind: z.enum(["Data", "Collection"]),
+  dataType: z.string(),
+  initialValue: z.string(),
+  page: z.string(),
+  scope: z.enum(["page", "global"]),
+  exposure: z.string(),
+  alwaysInit: z.boolean(),
+  fields: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+  })).optional(),
+  reads: z.array(dataItemUsageSchema),
+  writes: z.array(dataItemUsageSchema),
+  status: z.enum(["used", "unused", "write-only"]),
+});
+
+// Settings a process or object needs from the environment it is promoted to
+export const environmentVariableSchema = z.object({
+  name: z.string(),
+  dataType: z.string(),
+  defaultValue: z.string(),
+  pages: z.array(z.string()),
+});
+
+export const credentialUsageSchema = z.object({
+  // Unset when the name is computed at run time
+  credentialName: z.string().optional(),
+  expression: z.string(),
+  actionName: z.string(),
+  stageId: z.string(),
+  stageName: z.string(),
+  page: z.string(),
+});
+
+export const configurationReportSchema = z.object({
+  environmentVariables: z.array(environmentVariableSchema),
+  credentials: z.array(credentialUsageSchema),
+});
+
+// Problems found by parsing Calculation, MultipleCalculation and Decision expressions
+export const expressionIssueSchema = z.object({
+  kind: z.enum(["syntax-error", "missing-item", "unknown-function", "type-mismatch"]),
+  stageId: z.string(),
+  stageName: z.string(),
+  stageType: z.string(),
+  page: z.string(),
+  expression: z.string(),
+  message: z.string(),
+});
+
+// Which stages of each page an exception handler protects
+export const unprotectedStageSchema = z.object({
+  stageId: z.string(),
+  stageName: z.string(),
+  stageType: z.string(),
+  page: z.string(),
+});
+
+export const exceptionFindingSchema = z.object({
+  kind: z.enum(["recover-without-resume", "exception-without-detail", "unprotected-action"]),
+  stageId: z.string(),
+  stageName: z.string(),
+  stageType: z.string(),
+  page: z.string(),
+  detail: z.string().optional(),
+});
+
+export const exceptionCoverageSchema = z.object({
+  // Percentage of stages covered by a Recover stage, 0-100
+  coverage: z.number(),
+  pages: z.array(z.object({
+    subsheetId: z.string().optional(),
+    name: z.string(),
+    stageCount: z.number(),
+    protectedCount: z.number(),
+    coverage: z.number(),
+    hasRecovery: z.boolean(),
+  })),
+  unprotectedStages: z.array(unprotectedStageSchema),
+  findings: z.array(exceptionFindingSchema),
+});
+
+// Findings of the configurable best-practice rules
+export const ruleSeveritySchema = z.enum(["error", "warning", "info"]);
+
+export const ruleFindingSchema = z.object({
+  ruleId: z.string(),
+  severity: ruleSeveritySchema,
+  description: z.string(),
+  message: z.string(),
+  stageId: z.string().optional(),
+  stageName: z.string().optional(),
+  page: z.string().optional(),
+});
+
+// Code stages and global code of an object, with API calls worth reviewing
+export const codeStageSchema = z.object({
+  stageId: z.string(),
+  stageName: z.string(),
+  page: z.string(),
+  inputs: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+  })),
+  outputs: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+  })),
+  source: z.string(),
+});
+
+export const riskyCodeUsageSchema = z.object({
+  kind: z.enum(["process-start", "file-delete", "thread-sleep", "raw-sql"]),
+  // Unset for usages in the object's global code
+  stageId: z.string().optional(),
+  stageName: z.string(),
+  page: z.string().optional(),
+  line: z.number(),
+  snippet: z.string(),
+});
+
+export const codeInfoSchema = z.object({
+  language: z.string(),
+  references: z.array(z.string()),
+  imports: z.array(z.string()),
+  globalCode: z.string(),
+  codeStages: z.array(codeStageSchema),
+  riskyUsages: z.array(riskyCodeUsageSchema),
+});
+
+// Application Modeller match criteria quality, from 0 (fragile) to 100
+export const selectorQualitySchema = z.object({
+  score: z.number(),
+  rating: z.enum(["good", "fair", "poor"]),
+  attributesInUse: z.array(z.string()),
+  // In-use attributes tied to screen position, ordering or language
+  fragileAttributes: z.array(z.string()),
+  reasons: z.array(z.string()),
+});
+
+export const objectFragilitySchema = z.object({
+  // 100 minus the average selector score: higher means more likely to break
+  score: z.number(),
+  scoredElements: z.number(),
+  poorElements: z.number(),
+  fairElements: z.number(),
+});
+
+// A Read, Write, Navigate or Wait stage acting on an Application Modeller element
+export const elementUsageSchema = z.object({
+  elementId: z.string(),
+  stageId: z.string(),
+  stageName: z.string(),
+  stageType: z.string(),
+  // The object page (action) the stage is on
+  page: z.string(),
+  // Navigate/Read action or Wait condition, e.g. UIAClickCentre or CheckExists
+  operation: z.string().optional(),
+});
+
+export const unusedElementSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  path: z.string(),
+});
+
+// Structural diff between two versions of a process or object
+export const diffChangeSchema = z.enum(["added", "removed", "modified"]);
+
+export const fieldChangeSchema = z.object({
+  // Flattened XML path, e.g. inputs.input[Name]@expr
+  field: z.string(),
+  category: z.enum(["link", "expression", "data", "element", "property"]),
+  before: z.string().optional(),
+  after: z.string().optional(),
+});
+
+export const stageChangeSchema = z.object({
+  change: diffChangeSchema,
+  stageId: z.string(),
+  stageName: z.string(),
+  stageType: z.string(),
+  page: z.string(),
+  // How a modified stage was paired with its old version
+  matchedBy: z.enum(["id", "name"]).optional(),
+  changes: z.array(fieldChangeSchema),
+});
+
+export const pageChangeSchema = z.object({
+  change: diffChangeSchema,
+  name: z.string(),
+  changes: z.array(fieldChangeSchema),
+});
+
+export const dependencyChangeSchema = z.object({
+  change: diffChangeSchema,
+  objectName: z.string(),
+  addedActions: z.array(z.string()),
+  removedActions: z.array(z.string()),
+});
+
+export const elementChangeSchema = z.object({
+  change: diffChangeSchema,
+  elementId: z.string(),
+  name: z.string(),
+  path: z.string(),
+  changes: z.array(fieldChangeSchema),
+});
+
+export const processDiffSchema = z.object({
+  kind: z.enum(["process", "object"]),
+  oldName: z.string(),
+  newName: z.string(),
+  // Attributes of the <process> element: name, version, narrative, ...
+  properties: z.array(fieldChangeSchema),
+  pages: z.array(pageChangeSchema),
+  stages: z.array(stageChangeSchema),
+  dependencies: z.array(dependencyChangeSchema),
+  elements: z.array(elementChangeSchema),
+  summary: z.object({
+    added: z.number(),
+    removed: z.number(),
+    modified: z.number(),
+  }),
+});
+
+export const fileDiffSchema = processDiffSchema.extend({
+  oldFileName: z.string(),
+  newFileName: z.string(),
+});
+
+// Stage counts by Blue Prism stage type (Action, Decision, Calculation, ...)
+export const stageTypeCountSchema = z.object({
+  type: z.string(),
+  count: z.number(),
+  stageNames: z.array(z.string()),
+});
+
+export const subsheetInventorySchema = z.object({
+  subsheetId: z.string().optional(),
+  name: z.string(),
+  totalStages: z.number(),
+  stageTypes: z.array(stageTypeCountSchema),
+});
+
+// Directed graph of one page: stages at their Blue Prism positions and the
+// links between them. The view is the camera position stored with the page.
+export const flowNodeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+export const flowEdgeSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  kind: z.enum(["success", "true", "false", "choice"]),
+  label: z.string().optional(),
+});
+
+export const flowPageSchema = z.object({
+  subsheetId: z.string().optional(),
+  name: z.string(),
+  view: z.object({
+    cameraX: z.number(),
+    cameraY: z.number(),
+    zoom: z.number(),
+  }),
+  nodes: z.array(flowNodeSchema),
+  edges: z.array(flowEdgeSchema),
+});
+
+// Structural problems found by walking each page's links from its Start stage
+export const flowFindingSchema = z.object({
+  kind: z.enum(["unreachable-stage", "unreachable-end", "dangling-link", "missing-branch"]),
+  stageId: z.string(),
+  stageName: z.string(),
+  stageType: z.string(),
+  page: z.string(),
+  detail: z.string().optional(),
+});
+
+// Page-to-page calls made through SubSheet stages. Pages are keyed by their
+// subsheet id; the main page uses the key "main".
+export const subsheetCallSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  stageNames: z.array(z.string()),
+});
+
+export const callGraphSchema = z.object({
+  pages: z.array(z.object({
+    key: z.string(),
+    name: z.string(),
+  })),
+  calls: z.array(subsheetCallSchema),
+  // SubSheet stages whose <processid> names no page in this process
+  unresolvedCalls: z.array(z.object({
+    from: z.string(),
+    stageName: z.string(),
+    target: z.string(),
+  })),
+  orphanPages: z.array(z.string()),
+  cycles: z.array(z.array(z.string())),
+  maxDepth: z.number(),
+});
+
 // Process analysis types (no persistence needed)
 export const processAnalysisSchema = z.object({
   fileName: z.string(),
   fileSize: z.number(),
   processName: z.string(),
+  // The process's preferredid, which other processes' stages call it by
+  preferredId: z.string().optional(),
   totalStages: z.number(),
   vboCount: z.number(),
   actionCount: z.number(),
   subsheetCount: z.number(),
   dependencies: z.array(z.any()),
+  actionCalls: z.array(actionCallSchema),
+  processCalls: z.array(processCallSchema),
+  dataItems: z.array(dataItemSchema),
+  configuration: configurationReportSchema,
+  expressionIssues: z.array(expressionIssueSchema),
+  exceptionCoverage: exceptionCoverageSchema,
+  ruleFindings: z.array(ruleFindingSchema),
+  stageInventory: z.array(stageTypeCountSchema),
+  subsheetInventory: z.array(subsheetInventorySchema),
+  flowGraph: z.array(flowPageSchema),
+  flowFindings: z.array(flowFindingSchema),
+  callGraph: callGraphSchema,
 });
 
 export const vboAnalysisSchema = z.object({
   fileName: z.string(),
   fileSize: z.number(),
   vboName: z.string(),
+  preferredId: z.string().optional(),
   version: z.string(),
   narrative: z.string().optional(),
   actionCount: z.number(),
   elementCount: z.number(),
   actions: z.array(z.any()),
   elements: z.array(z.any()),
+  dataItems: z.array(dataItemSchema),
+  configuration: configurationReportSchema,
+  expressionIssues: z.array(expressionIssueSchema),
+  ruleFindings: z.array(ruleFindingSchema),
+  code: codeInfoSchema,
+  fragility: objectFragilitySchema,
+  unusedElements: z.array(unusedElementSchema),
+});
+
+// Cross-file dependency resolution between processes and the objects they call
+export const dependencyIssueSchema = z.object({
+  kind: z.enum(["missing-object", "missing-action", "unused-action"]),
+  objectName: z.string(),
+  actionName: z.string().optional(),
+  processName: z.string().optional(),
+  locations: z.array(z.string()),
+});
+
+export const dependencyResolutionSchema = z.object({
+  resolvedCalls: z.number(),
+  issues: z.array(dependencyIssueSchema),
+});
+
+// Mismatches between what an Action stage passes and the called action's signature
+export const parameterIssueSchema = z.object({
+  kind: z.enum(["missing-input", "unknown-input", "unknown-output", "type-mismatch"]),
+  processName: z.string(),
+  page: z.string(),
+  stageId: z.string(),
+  stageName: z.string(),
+  objectName: z.string(),
+  actionName: z.string(),
+  parameterName: z.string(),
+  expectedType: z.string().optional(),
+  actualType: z.string().optional(),
+});
+
+export const releaseItemSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: z.enum(["process", "object"]),
+});
+
+export const releaseAnalysisSchema = z.object({
+  fileName: z.string(),
+  fileSize: z.number(),
+  releaseName: z.string(),
+  packageName: z.string(),
+  createdBy: z.string(),
+  created: z.string(),
+  items: z.array(releaseItemSchema),
+  processes: z.array(processAnalysisSchema),
+  objects: z.array(vboAnalysisSchema),
+  dependencyResolution: dependencyResolutionSchema,
+  parameterIssues: z.array(parameterIssueSchema),
 });
 
+export type FlowNode = z.infer<typeof flowNodeSchema>;
+export type FlowEdge = z.infer<typeof flowEdgeSchema>;
+export type FlowPage = z.infer<typeof flowPageSchema>;
+export type FlowFinding = z.infer<typeof flowFindingSchema>;
+export type SubsheetCall = z.infer<typeof subsheetCallSchema>;
+export type CallGraph = z.infer<typeof callGraphSchema>;
+export type StageTypeCount = z.infer<typeof stageTypeCountSchema>;
+export type SubsheetInventory = z.infer<typeof subsheetInventorySchema>;
+export type ActionCall = z.infer<typeof actionCallSchema>;
+export type ProcessCall = z.infer<typeof processCallSchema>;
+export type DataItemUsage = z.infer<typeof dataItemUsageSchema>;
+export type DataItem = z.infer<typeof dataItemSchema>;
+export type EnvironmentVariable = z.infer<typeof environmentVariableSchema>;
+export type CredentialUsage = z.infer<typeof credentialUsageSchema>;
+export type ConfigurationReport = z.infer<typeof configurationReportSchema>;
+export type ExpressionIssue = z.infer<typeof expressionIssueSchema>;
+export type UnprotectedStage = z.infer<typeof unprotectedStageSchema>;
+export type ExceptionFinding = z.infer<typeof exceptionFindingSchema>;
+export type ExceptionCoverage = z.infer<typeof exceptionCoverageSchema>;
+export type RuleSeverity = z.infer<typeof ruleSeveritySchema>;
+export type RuleFinding = z.infer<typeof ruleFindingSchema>;
+export type CodeStage = z.infer<typeof codeStageSchema>;
+export type RiskyCodeUsage = z.infer<typeof riskyCodeUsageSchema>;
+export type CodeInfo = z.infer<typeof codeInfoSchema>;
+export type SelectorQuality = z.infer<typeof selectorQualitySchema>;
+export type ObjectFragility = z.infer<typeof objectFragilitySchema>;
+export type ElementUsage = z.infer<typeof elementUsageSchema>;
+export type UnusedElement = z.infer<typeof unusedElementSchema>;
+export type DiffChange = z.infer<typeof diffChangeSchema>;
+export type FieldChange = z.infer<typeof fieldChangeSchema>;
+export type StageChange = z.infer<typeof stageChangeSchema>;
+export type PageChange = z.infer<typeof pageChangeSchema>;
+export type DependencyChange = z.infer<typeof dependencyChangeSchema>;
+export type ElementChange = z.infer<typeof elementChangeSchema>;
+export type ProcessDiff = z.infer<typeof processDiffSchema>;
+export type FileDiff = z.infer<typeof fileDiffSchema>;
 export type ProcessAnalysis = z.infer<typeof processAnalysisSchema>;
 export type VBOAnalysis = z.infer<typeof vboAnalysisSchema>;
+export type DependencyIssue = z.infer<typeof dependencyIssueSchema>;
+export type DependencyResolution = z.infer<typeof dependencyResolutionSchema>;
+export type ParameterIssue = z.infer<typeof parameterIssueSchema>;
+export type ReleaseItem = z.infer<typeof releaseItemSchema>;
+export type ReleaseAnalysis = z.infer<typeof releaseAnalysisSchema>;
+
+// Differences between two release packages, one entry per process or object
+export const releaseItemDiffSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: z.enum(["process", "object"]),
+  change: z.enum(["added", "removed", "modified", "unchanged"]),
+  oldVersion: z.string().optional(),
+  newVersion: z.string().optional(),
+  oldBpVersion: z.string().optional(),
+  newBpVersion: z.string().optional(),
+  // Structural diff of a modified item
+  diff: processDiffSchema.optional(),
+});
+
+export const releaseDiffSchema = z.object({
+  oldFileName: z.string(),
+  newFileName: z.string(),
+  oldReleaseName: z.string(),
+  newReleaseName: z.string(),
+  oldCreated: z.string(),
+  newCreated: z.string(),
+  // Release name, package name, author and creation date
+  properties: z.array(fieldChangeSchema),
+  items: z.array(releaseItemDiffSchema),
+  summary: z.object({
+    added: z.number(),
+    removed: z.number(),
+    modified: z.number(),
+    unchanged: z.number(),
+  }),
+});
+
+export type ReleaseItemDiff = z.infer<typeof releaseItemDiffSchema>;
+export type ReleaseDiff = z.infer<typeof releaseDiffSchema>;
+
+// A batch of uploaded files analyzed together
+export const workspaceFileSchema = z.object({
+  // Entries of an archive are named archive.zip/path/in/archive
+  fileName: z.string(),
+  fileSize: z.number(),
+  kind: z.enum(["process", "object", "release", "archive"]).optional(),
+  status: z.enum(["analyzed", "failed"]),
+  // Served from a saved analysis of an identical file
+  cached: z.boolean().optional(),
+  error: z.string().optional(),
+  // Processes and objects the file contributed (a release can hold many), or
+  // the number of entries taken from an archive
+  itemCount: z.number(),
+});
+
+// An archive entry that was not analyzed
+export const skippedEntrySchema = z.object({
+  archive: z.string(),
+  path: z.string(),
+  reason: z.string(),
+});
+
+export const workspaceItemSchema = releaseItemSchema.extend({
+  fileName: z.string(),
+});
+
+// One object's usage summed over every process in the workspace
+export const vboUsageSchema = z.object({
+  objectName: z.string(),
+  inWorkspace: z.boolean(),
+  builtIn: z.boolean(),
+  usageCount: z.number(),
+  processes: z.array(z.string()),
+  actions: z.array(z.object({
+    name: z.string(),
+    usageCount: z.number(),
+    processes: z.array(z.string()),
+  })),
+});
+
+export const workspaceAnalysisSchema = z.object({
+  files: z.array(workspaceFileSchema),
+  skippedEntries: z.array(skippedEntrySchema),
+  // Processes first, then objects, in the same order as the analyses
+  items: z.array(workspaceItemSchema),
+  processes: z.array(processAnalysisSchema),
+  objects: z.array(vboAnalysisSchema),
+  vboUsage: z.array(vboUsageSchema),
+  dependencyResolution: dependencyResolutionSchema,
+  parameterIssues: z.array(parameterIssueSchema),
+});
+
+export type WorkspaceFile = z.infer<typeof workspaceFileSchema>;
+export type SkippedEntry = z.infer<typeof skippedEntrySchema>;
+export type WorkspaceItem = z.infer<typeof workspaceItemSchema>;
+export type VBOUsage = z.infer<typeof vboUsageSchema>;
+export type WorkspaceAnalysis = z.infer<typeof workspaceAnalysisSchema>;
+
+// What a new version of an object changes in the signatures of its published
+// actions. Renames pair up a removed and an added name.
+export const signatureChangeSchema = z.object({
+  kind: z.enum([
+    "action-removed",
+    "action-renamed",
+    "action-unpublished",
+    "action-added",
+    "input-removed",
+    "input-renamed",
+    "input-added",
+    "input-type-changed",
+    "output-removed",
+    "output-renamed",
+    "output-added",
+    "output-type-changed",
+  ]),
+  actionName: z.string(),
+  newActionName: z.string().optional(),
+  parameterName: z.string().optional(),
+  newParameterName: z.string().optional(),
+  oldType: z.string().optional(),
+  newType: z.string().optional(),
+});
+
+export const impactSeveritySchema = z.enum(["error", "warning", "info"]);
+
+// A calling stage affected by the new version, most severe reason first
+export const impactedCallerSchema = z.object({
+  analysisId: z.number(),
+  processName: z.string(),
+  page: z.string(),
+  stageId: z.string(),
+  stageName: z.string(),
+  actionName: z.string(),
+  severity: impactSeveritySchema,
+  reasons: z.array(z.object({
+    severity: impactSeveritySchema,
+    change: signatureChangeSchema,
+    message: z.string(),
+  })),
+});
+
+export const impactReportSchema = z.object({
+  objectName: z.string(),
+  fileName: z.string(),
+  version: z.string(),
+  baseline: z.object({
+    source: z.enum(["upload", "history"]),
+    fileName: z.string(),
+    version: z.string(),
+    analysisId: z.number().optional(),
+    analyzedAt: z.string().optional(),
+  }),
+  changes: z.array(signatureChangeSchema),
+  callers: z.array(impactedCallerSchema),
+  summary: z.object({
+    error: z.number(),
+    warning: z.number(),
+    info: z.number(),
+    unaffected: z.number(),
+  }),
+});
+
+export type SignatureChange = z.infer<typeof signatureChangeSchema>;
+export type ImpactSeverity = z.infer<typeof impactSeveritySchema>;
+export type ImpactedCaller = z.infer<typeof impactedCallerSchema>;
+export type ImpactReport = z.infer<typeof impactReportSchema>;
 
 export const actionSchema = z.object({
   id: z.string(),
@@ -72,6 +700,7 @@ export const vboActionSchema = z.object({
     type: z.string(),
     description: z.string().optional(),
   })).optional(),
+  published: z.boolean().optional(),
 });
 
 export type VBOElement = {
@@ -81,6 +710,8 @@ export type VBOElement = {
   parentId?: string;
   path: string;
   attributes?: Record<string, any>;
+  selector?: SelectorQuality;
+  usedBy?: ElementUsage[];
   children?: VBOElement[];
 };
 
@@ -91,7 +722,53 @@ export const vboElementSchema: z.ZodType<VBOElement> = z.lazy(() => z.object({
   parentId: z.string().optional(),
   path: z.string(),
   attributes: z.record(z.any()).optional(),
+  selector: selectorQualitySchema.optional(),
+  usedBy: z.array(elementUsageSchema).optional(),
   children: z.array(vboElementSchema).optional(),
 }));
 
 export type VBOActionDef = z.infer<typeof vboActionSchema>;
+
+// Saved analyses, one row per analyzed upload. The full analysis is kept as
+// JSON in `result`; the other columns describe the file so history can be
+// listed without loading every result. A row also serves as the cached result
+// for its content hash and analyzer version until it is invalidated.
+export const analyses = pgTable("analyses", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull().$type<"process" | "object" | "release">(),
+  name: text("name").notNull(),
+  fileName: text("file_name").notNull(),
+  fileSize: integer("file_size").notNull(),
+  contentHash: text("content_hash").notNull(),
+  analyzerVersion: text("analyzer_version").notNull(),
+  result: jsonb("result").notNull().$type<ProcessAnalysis | VBOAnalysis | ReleaseAnalysis>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  invalidatedAt: timestamp("invalidated_at"),
+}, table => [
+  index("analyses_cache_idx").on(table.kind, table.contentHash, table.analyzerVersion),
+]);
+
+// Where-used index: one row per Action stage that calls a business object, for
+// the latest saved analysis of each process. Object and action names are also
+// kept lower-cased for case-insensitive lookups.
+export const vboCallSites = pgTable("vbo_call_sites", {
+  id: serial("id").primaryKey(),
+  analysisId: integer("analysis_id").notNull().references(() => analyses.id, { onDelete: "cascade" }),
+  processName: text("process_name").notNull(),
+  page: text("page").notNull(),
+  stageId: text("stage_id").notNull(),
+  stageName: text("stage_name").notNull(),
+  objectName: text("object_name").notNull(),
+  actionName: text("action_name").notNull(),
+  objectKey: text("object_key").notNull(),
+  actionKey: text("action_key").notNull(),
+}, table => [
+  index("vbo_call_sites_object_idx").on(table.objectKey, table.actionKey),
+  index("vbo_call_sites_process_idx").on(table.processName),
+]);
+
+export type InsertAnalysis = Omit<typeof analyses.$inferInsert, "id" | "createdAt" | "updatedAt" | "invalidatedAt">;
+export type StoredAnalysis = typeof analyses.$inferSelect;
+export type AnalysisSummary = Omit<StoredAnalysis, "result">;
+export type VBOCallSite = Omit<typeof vboCallSites.$inferSelect, "id" | "objectKey" | "actionKey">;